@@ -0,0 +1,160 @@
+import { createElement, type ImgHTMLAttributes } from 'preact';
+
+export interface AssetOptions {
+  /**
+   * Stop waiting on the asset after this many milliseconds and render
+   * without it. Defaults to 3000.
+   */
+  timeoutMs?: number;
+}
+
+export interface SuspenseImageProps extends ImgHTMLAttributes<HTMLImageElement>, AssetOptions {
+  src: string;
+}
+
+export interface FontOptions extends AssetOptions {
+  /** Passed to the `FontFace` constructor, e.g. `{ weight: '700' }`. */
+  descriptors?: FontFaceDescriptors;
+}
+
+interface Asset {
+  promise: Promise<void>;
+  ready: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 3000;
+
+const assets = new Map<string, Asset>();
+
+/**
+ * Load an asset once per key. The promise resolves when the asset has
+ * loaded, failed to load or timed out: a missing image or font should not
+ * keep a boundary on its fallback, the browser handles it as it would
+ * without Suspense.
+ */
+function loadAsset(key: string, load: () => Promise<unknown> | null, timeoutMs = DEFAULT_TIMEOUT_MS): Asset {
+  let asset = assets.get(key);
+  if (asset) return asset;
+
+  const pending = typeof document !== 'undefined' ? load() : null;
+  if (!pending) {
+    asset = { promise: Promise.resolve(), ready: true };
+  } else {
+    const entry: Asset = (asset = { promise: null as any, ready: false });
+    entry.promise = new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        entry.ready = true;
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      pending.then(done, done);
+    });
+  }
+  assets.set(key, asset);
+  return asset;
+}
+
+function read(asset: Asset) {
+  if (!asset.ready) throw asset.promise;
+}
+
+function loadImage(src: string, options: AssetOptions = {}) {
+  return loadAsset('img:' + src, () => {
+    const img = new Image();
+    img.src = src;
+    if (img.complete && img.naturalWidth) return null;
+    return img.decode
+      ? img.decode()
+      : new Promise((resolve, reject) => {
+          img.onload = resolve;
+          img.onerror = reject;
+        });
+  }, options.timeoutMs);
+}
+
+/**
+ * Start loading and decoding an image, so a `SuspenseImage` with the same
+ * `src` renders without suspending.
+ *
+ * Usage:
+ *   onPointerEnter={() => preloadImage('/hero.jpg')}
+ *
+ * The promise resolves once the image is ready, or once loading it failed
+ * or timed out.
+ */
+export function preloadImage(src: string, options?: AssetOptions): Promise<void> {
+  return loadImage(src, options).promise;
+}
+
+/**
+ * An `<img>` that suspends the nearest Suspense until the image is
+ * decoded, so the boundary doesn't reveal its content before the image
+ * can be painted.
+ *
+ * Usage:
+ *   <Suspense fallback={<Skeleton />}>
+ *     <SuspenseImage src="/hero.jpg" alt="" timeoutMs={2000} />
+ *   </Suspense>
+ */
+export function SuspenseImage({ timeoutMs, ...props }: SuspenseImageProps) {
+  read(loadImage(props.src, { timeoutMs }));
+  return createElement('img', props);
+}
+
+/**
+ * Add a stylesheet to the document, suspending the nearest Suspense until
+ * it has loaded so content doesn't render unstyled.
+ *
+ * Usage:
+ *   function Chart() {
+ *     useStylesheet('/chart.css');
+ *     return <div class="chart" />;
+ *   }
+ *
+ * The `<link>` is added once and stays in the document after the
+ * component unmounts. A stylesheet that is already linked isn't added again.
+ */
+export function useStylesheet(href: string, options: AssetOptions = {}): void {
+  read(loadAsset('css:' + href, () => {
+    let link = Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]'))
+      .find((l) => l.getAttribute('href') === href);
+    if (link && link.sheet) return null;
+
+    if (!link) {
+      link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = href;
+      document.head.appendChild(link);
+    }
+    const el = link;
+    return new Promise((resolve, reject) => {
+      el.addEventListener('load', resolve);
+      el.addEventListener('error', reject);
+    });
+  }, options.timeoutMs));
+}
+
+/**
+ * Load a web font, suspending the nearest Suspense until it is available
+ * so text doesn't reflow when the font swaps in.
+ *
+ * Usage:
+ *   function Title({ children }) {
+ *     useFont('Inter', '/fonts/inter.woff2', { descriptors: { weight: '700' } });
+ *     return <h1 style={{ fontFamily: 'Inter' }}>{children}</h1>;
+ *   }
+ *
+ * The font face is added to `document.fonts` once it has loaded.
+ */
+export function useFont(family: string, src: string, options: FontOptions = {}): void {
+  const descriptors = options.descriptors;
+  const key = 'font:' + family + ':' + src + ':' + (descriptors ? JSON.stringify(descriptors) : '');
+  read(loadAsset(key, () => {
+    if (typeof FontFace === 'undefined') return null;
+    const face = new FontFace(family, `url(${JSON.stringify(src)})`, descriptors);
+    return face.load().then(() => {
+      (document.fonts as unknown as Set<FontFace>).add(face);
+    });
+  }, options.timeoutMs));
+}
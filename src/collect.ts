@@ -0,0 +1,65 @@
+import { options } from 'preact';
+import type { InternalVNode } from './internal';
+import type { Entry } from './resource';
+
+/** What the server renders started by `collectRenderData()` record. */
+export interface RenderData {
+  /** Entries read from resources with an id, by resource id and key. */
+  entries: Map<string, Map<unknown, Entry<unknown>>>;
+  /** Ids of the `lazy()` components rendered. */
+  chunks: Set<string>;
+}
+
+/** Where each server render started by `collectRenderData()` records, by its root vnode. */
+const collectors = new WeakMap<InternalVNode, RenderData>();
+let startingCollector: RenderData | undefined;
+let startedRender = false;
+let collecting = false;
+
+let rootHookInstalled = false;
+function installRootHook() {
+  if (rootHookInstalled) return;
+  rootHookInstalled = true;
+
+  // Server renderers pass the vnode they put above the root; every vnode
+  // they render links back up to it.
+  const oldRoot = (options as any).__;
+  (options as any).__ = (vnode: InternalVNode, parent: any) => {
+    if (startingCollector && parent && parent.__k) {
+      collectors.set(parent.__k, startingCollector);
+      startedRender = true;
+    }
+    if (oldRoot) oldRoot(vnode, parent);
+  };
+}
+
+/**
+ * Call `render`, and record what the server renders it starts read and
+ * render into `into`. Only renders started before `render` returns are
+ * recorded, so renders that overlap in time never see each other's data.
+ * Reports whether `render` started any.
+ */
+export function collectRenderData<T>(into: RenderData, render: () => T): { result: T; started: boolean } {
+  installRootHook();
+  collecting = true;
+
+  const prevCollector = startingCollector;
+  const prevStarted = startedRender;
+  startingCollector = into;
+  startedRender = false;
+  try {
+    const result = render();
+    return { result, started: startedRender };
+  } finally {
+    startingCollector = prevCollector;
+    startedRender = prevStarted;
+  }
+}
+
+/** Where the server render that `vnode` belongs to records its data, if it is being collected. */
+export function collectorFor(vnode: InternalVNode | undefined): RenderData | undefined {
+  if (!collecting) return undefined;
+  let root = vnode;
+  while (root && root.__) root = root.__;
+  return root && collectors.get(root);
+}
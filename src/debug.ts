@@ -0,0 +1,104 @@
+import { options } from 'preact';
+import { debugHooks, getDisplayName, type InternalVNode } from './internal';
+import { subscribeSuspense } from './telemetry';
+
+export interface DebugOptions {
+  /**
+   * Warn about suspensions that haven't settled after this many
+   * milliseconds. Defaults to 10000; `0` turns the warning off.
+   */
+  slowSuspenseMs?: number;
+}
+
+let slowSuspenseMs = 10000;
+
+/**
+ * Adjust the development checks enabled by importing
+ * `preact-suspense/debug`.
+ *
+ * Usage:
+ *   configureSuspenseDebug({ slowSuspenseMs: 5000 });
+ */
+export function configureSuspenseDebug(debugOptions: DebugOptions) {
+  if (debugOptions.slowSuspenseMs !== undefined) slowSuspenseMs = debugOptions.slowSuspenseMs;
+}
+
+/** The names of the components rendering `vnode`, innermost first. */
+function getOwnerStack(vnode: InternalVNode): string {
+  const lines: string[] = [];
+  let v: InternalVNode | undefined = vnode;
+  while (v) {
+    const type = v.type as any;
+    if (typeof type === 'function' && getDisplayName(v) !== 'Fragment') {
+      lines.push(`  in ${getDisplayName(v)}`);
+    }
+    v = v.__;
+  }
+  return lines.join('\n');
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return `the string "${value}"`;
+  if (typeof value === 'object') {
+    const keys = Object.keys(value as object);
+    return keys.length ? `an object with keys ${keys.join(', ')}` : 'an empty object';
+  }
+  return `a ${typeof value}`;
+}
+
+// A thrown promise with no boundary above it would otherwise reach
+// Preact as a meaningless error: replace it with one that says where it
+// came from.
+const oldCatchError = (options as any).__e;
+(options as any).__e = function (
+  err: any,
+  newVNode: InternalVNode,
+  oldVNode: InternalVNode,
+  errorInfo?: any
+) {
+  if (err && typeof err.then === 'function') {
+    let v: InternalVNode | undefined = newVNode;
+    let hasBoundary = false;
+    while ((v = v!.__)) {
+      if (v.__c && (v.__c as any).__c) {
+        hasBoundary = true;
+        break;
+      }
+    }
+    if (!hasBoundary) {
+      err = new Error(
+        `preact-suspense: <${getDisplayName(newVNode)}> suspended, but there is no ` +
+          '<Suspense> boundary above it. Wrap it, or one of its parents, in <Suspense>.\n\n' +
+          getOwnerStack(newVNode)
+      );
+    }
+  }
+  if (oldCatchError) oldCatchError(err, newVNode, oldVNode, errorInfo);
+};
+
+const watched = new WeakSet<Promise<any>>();
+subscribeSuspense((event) => {
+  if (event.type !== 'suspend' || !slowSuspenseMs || watched.has(event.promise)) return;
+  watched.add(event.promise);
+
+  const threshold = slowSuspenseMs;
+  const timer = setTimeout(() => {
+    console.warn(
+      `preact-suspense: <${event.componentName}> has been suspended for over ${threshold}ms. ` +
+        'Make sure the promise it threw settles.'
+    );
+  }, threshold);
+  const clear = () => clearTimeout(timer);
+  event.promise.then(clear, clear);
+});
+
+debugHooks._lazyLoaded = (value) => {
+  if (typeof value !== 'function') {
+    throw new Error(
+      `lazy(): the loader resolved to ${describe(value)}, which is not a component. ` +
+        'Check that the module exports the component (as its default export, or under ' +
+        'the name passed to lazy()).'
+    );
+  }
+};
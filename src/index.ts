@@ -1,2 +1,25 @@
 export { Suspense } from './suspense';
-export { lazy } from './lazy';
+export type { RevealScheduler } from './schedule';
+export { SuspenseList } from './suspense-list';
+export { lazy, preloadLazyChunks, type Lazy, type LazyLoadContext, type LazyOptions } from './lazy';
+export {
+  preloadImage,
+  SuspenseImage,
+  useFont,
+  useStylesheet,
+  type AssetOptions,
+  type FontOptions,
+  type SuspenseImageProps,
+} from './assets';
+export { preloadOnIdle, usePreloadOnIntent, usePreloadOnVisible } from './preload';
+export { createResource, use, type Resource, type ResourceOptions } from './resource';
+export { restoreSuspenseData, type SuspenseData } from './transfer';
+export { startTransition, useTransition } from './transition';
+export { useSuspenseStatus, type SuspenseStatus } from './status';
+export { inspectSuspense, type Suspender, type SuspenseBoundaryInfo } from './inspect';
+export {
+  subscribeSuspense,
+  type ResolveInfo,
+  type SuspendInfo,
+  type SuspenseEvent,
+} from './telemetry';
@@ -0,0 +1,67 @@
+import type { VNode } from 'preact';
+import type { InternalVNode } from './internal';
+import type { Suspense } from './suspense';
+
+/** A promise a boundary is waiting on. */
+export interface Suspender {
+  promise: Promise<any>;
+  /** The vnode of the first component that threw the promise. */
+  vnode: VNode;
+  componentName: string;
+  /** When the boundary started waiting on the promise (`Date.now()`). */
+  startedAt: number;
+}
+
+export interface SuspenseBoundaryInfo {
+  /** The Suspense component instance. */
+  boundary: Suspense;
+  /** Whether the boundary is rendering its fallback. */
+  showingFallback: boolean;
+  /** The promises the boundary is waiting on, oldest first. */
+  pending: Suspender[];
+  /** The boundaries nested inside this one. */
+  children: SuspenseBoundaryInfo[];
+}
+
+/** Every mounted Suspense boundary, in mount order. */
+export const mountedBoundaries = new Set<Suspense>();
+
+function findParentBoundary(boundary: Suspense): Suspense | null {
+  let v: InternalVNode | undefined = (boundary as any).__v;
+  while (v && (v = v.__)) {
+    const c = v.__c as any;
+    if (c && mountedBoundaries.has(c)) return c;
+  }
+  return null;
+}
+
+/**
+ * List the mounted Suspense boundaries as a tree, with the promises each
+ * one is waiting on, to find out what is holding up a spinner.
+ *
+ * Usage:
+ *   // In the browser console, or a devtools panel:
+ *   inspectSuspense().forEach(function log(info) {
+ *     info.pending.forEach((s) => console.log(s.componentName, Date.now() - s.startedAt));
+ *     info.children.forEach(log);
+ *   });
+ */
+export function inspectSuspense(): SuspenseBoundaryInfo[] {
+  const infos = new Map<Suspense, SuspenseBoundaryInfo>();
+  mountedBoundaries.forEach((boundary) => {
+    infos.set(boundary, {
+      boundary,
+      showingFallback: !!boundary.state.suspended,
+      pending: boundary._getSuspenders(),
+      children: [],
+    });
+  });
+
+  const roots: SuspenseBoundaryInfo[] = [];
+  infos.forEach((info, boundary) => {
+    const parent = findParentBoundary(boundary);
+    if (parent) infos.get(parent)!.children.push(info);
+    else roots.push(info);
+  });
+  return roots;
+}
@@ -0,0 +1,57 @@
+import type { Component, VNode } from 'preact';
+
+export const MODE_HYDRATE = 1 << 5;
+
+export interface InternalVNode extends VNode {
+  __?: InternalVNode;
+  __c?: InternalComponent;
+  __e?: Element | Text;
+  __k?: InternalVNode[];
+  __u?: number;
+  __h?: boolean;
+}
+
+export interface InternalComponent extends Component {
+  __c?: (error: Promise<any>, suspendingVNode: InternalVNode) => void;
+  __v?: InternalVNode;
+  __H?: {
+    __: InternalHookState[];
+    /** Effects waiting to run after the next paint. */
+    __h?: InternalHookState[];
+  };
+}
+
+export interface InternalHookState {
+  /** The effect callback, for effect hooks. */
+  __?: any;
+  /** The cleanup returned by the effect, for effect hooks. */
+  __c?: any;
+}
+
+export function getDisplayName(vnode: InternalVNode): string {
+  const type = vnode.type as any;
+  if (typeof type === 'string') return type;
+  return (type && (type.displayName || type.name)) || 'Anonymous';
+}
+
+/** Checks installed by `preact-suspense/debug`. */
+export const debugHooks: {
+  /** Called with what a `lazy()` loader resolved to; may throw. */
+  _lazyLoaded?: (value: unknown) => void;
+} = {};
+
+/** Work behind a thrown promise that can be cancelled once nothing waits on it. */
+export interface Cancelable {
+  /** Called by each boundary that starts waiting on the promise. */
+  _retain(): void;
+  /** Called by a waiting boundary that unmounts before the promise settles. */
+  _release(): void;
+}
+
+export const cancelables = new WeakMap<PromiseLike<any>, Cancelable>();
+
+/**
+ * Suspended components whose boundary re-renders them once their promise
+ * settles, batched with the boundary's own update.
+ */
+export const updatedByBoundary = new WeakSet<object>();
@@ -1,14 +1,19 @@
-import { createElement, options, type FunctionComponent } from 'preact';
+import { createElement, options, type ComponentType, type FunctionComponent } from 'preact';
 import { useState, useRef } from 'preact/hooks';
+import { collectorFor } from './collect';
+import { cancelables, debugHooks, updatedByBoundary, type InternalComponent } from './internal';
 
 let diffHookInstalled = false;
 function installDiffHook() {
   if (diffHookInstalled) return;
   diffHookInstalled = true;
 
+  // Same flag and behaviour as `forwardRef()` from preact/compat: the ref
+  // is passed as a prop, and `createElement` turns it back into the ref of
+  // the loaded component.
   const oldDiff = (options as any).__b;
   (options as any).__b = (vnode: any) => {
-    if (vnode.type && vnode.type._forwarded && vnode.ref) {
+    if (vnode.type && vnode.type.__f && vnode.ref) {
       vnode.props.ref = vnode.ref;
       vnode.ref = null;
     }
@@ -16,6 +21,76 @@ function installDiffHook() {
   };
 }
 
+export interface LazyOptions {
+  /** How many times to call `load` again after it rejects. Defaults to 0. */
+  retries?: number;
+  /**
+   * Delay in milliseconds before the first retry; it doubles with every
+   * further attempt. Defaults to 0.
+   */
+  backoff?: number;
+  /** Decide whether a failed attempt should be retried. */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /**
+   * A stable id for the chunk, usually its module path. Server renders
+   * report the ids of the lazy components they render, and the client
+   * preloads them by id before hydrating.
+   */
+  id?: string;
+}
+
+export interface LazyLoadContext {
+  /**
+   * Aborted when every boundary waiting on the load has unmounted, unless
+   * the load was preloaded. The next render then starts a new load.
+   */
+  signal: AbortSignal;
+}
+
+/** Lazy components created with an `id`, for `preloadLazyChunks()`. */
+const chunks = new Map<string, Lazy<any>>();
+
+/** Sets receiving the ids of lazy components as they render. */
+const collectors = new Set<Set<string>>();
+
+/**
+ * Add the id of every lazy component rendered from now on to `ids`, until
+ * the returned function is called.
+ */
+export function collectRenderedChunks(ids: Set<string>): () => void {
+  collectors.add(ids);
+  return () => {
+    collectors.delete(ids);
+  };
+}
+
+/**
+ * Load the lazy components with the given ids, so they render
+ * synchronously instead of suspending. Call it with the ids collected by
+ * `collectLazyChunks()` on the server before `hydrate()`.
+ *
+ * Usage:
+ *   await preloadLazyChunks(window.__CHUNKS__);
+ *   hydrate(<App />, root);
+ *
+ * Ids without a matching `lazy()` are ignored, as are failed loads: those
+ * components throw their error once rendered.
+ */
+export function preloadLazyChunks(ids: string[]): Promise<void> {
+  const loads = ids.map((id) => {
+    const component = chunks.get(id);
+    return component ? component.preload().catch(() => {}) : undefined;
+  });
+  return Promise.all(loads).then(() => {});
+}
+
+/** The keys of `M` whose values are components. */
+type ComponentExports<M> = {
+  [K in keyof M]: M[K] extends ComponentType<any> ? K : never;
+}[keyof M];
+
+export type Lazy<T> = T & { preload: () => Promise<T> };
+
 /**
  * Create a lazily-loaded component. The `load` function should return
  * a promise that resolves to a module with a `default` export (the component).
@@ -23,43 +98,176 @@ function installDiffHook() {
  * Usage:
  *   const MyComponent = lazy(() => import('./MyComponent'));
  *
+ * Components that aren't the default export can be picked by name, or
+ * with a selector function:
+ *   const Settings = lazy(() => import('./Panels'), 'SettingsPanel');
+ *   const Settings = lazy(() => import('./Panels'), (m) => m.Panels.Settings);
+ *
  * When rendered inside a <Suspense>, the fallback will be shown until
- * the component module is loaded.
+ * the component module is loaded. If loading fails, the rejection is
+ * thrown as a regular render error, which a Suspense `errorFallback` (or
+ * any other error boundary) can catch.
+ *
+ * Pass `retries` (and optionally `backoff` / `shouldRetry`) to call `load`
+ * again before giving up:
+ *   const MyComponent = lazy(() => import('./MyComponent'), { retries: 2, backoff: 500 });
+ *
+ * `load` receives an AbortSignal, which is aborted when every boundary
+ * waiting on the load unmounts before it finishes (never for a load started
+ * or joined by `preload()`):
+ *   const MyComponent = lazy(({ signal }) => fetchComponent('./MyComponent', { signal }));
+ *
+ * Class components and `forwardRef()` components work too: a `ref` on the
+ * lazy component is passed on to the loaded one, and the returned type
+ * keeps its props and ref type.
+ *
+ * Give it an `id` to preload it by id before hydration (see
+ * `collectLazyChunks` and `preloadLazyChunks`):
+ *   const MyComponent = lazy(() => import('./MyComponent'), { id: './MyComponent' });
  */
-export function lazy<T extends FunctionComponent<any>>(
-  load: () => Promise<{ default: T } | T>
-): T & { preload: () => Promise<T> } {
+export function lazy<M, K extends ComponentExports<M>>(
+  load: (context: LazyLoadContext) => Promise<M>,
+  exportName: K,
+  options?: LazyOptions
+): Lazy<M[K]>;
+export function lazy<M, T extends ComponentType<any>>(
+  load: (context: LazyLoadContext) => Promise<M>,
+  select: (module: M) => T,
+  options?: LazyOptions
+): Lazy<T>;
+export function lazy<T extends ComponentType<any>>(
+  load: (context: LazyLoadContext) => Promise<{ default: T } | T>,
+  options?: LazyOptions
+): Lazy<T>;
+export function lazy<T extends ComponentType<any>>(
+  load: (context: LazyLoadContext) => Promise<any>,
+  pick?: PropertyKey | ((module: any) => T) | LazyOptions,
+  options: LazyOptions = {}
+): Lazy<T> {
   installDiffHook();
 
+  let select: (module: any) => T;
+  let missing = 'the loaded module did not contain a component';
+  if (typeof pick === 'function') {
+    select = pick;
+  } else if (pick != null && typeof pick !== 'object') {
+    select = (m) => m[pick];
+    missing = `the loaded module has no export named "${String(pick)}"`;
+  } else {
+    if (pick) options = pick;
+    select = (m) => (m && m.default) || m;
+  }
+
+  const { retries = 0, backoff = 0, shouldRetry, id } = options;
+
   let promise: Promise<T> | undefined;
+  let preloaded: Promise<T> | undefined;
   let component: T | undefined;
+  let failed = false;
+  let error: unknown;
+  let signal: AbortSignal | undefined;
 
-  const loadModule = (): Promise<T> =>
-    load().then((m: any) => {
-      component = (m && m.default) || m;
-      return component!;
+  const attemptLoad = (attempt: number, signal: AbortSignal): Promise<any> =>
+    load({ signal }).catch((err) => {
+      if (signal.aborted || attempt > retries || (shouldRetry && !shouldRetry(err, attempt))) {
+        throw err;
+      }
+      const delay = backoff * 2 ** (attempt - 1);
+      return new Promise((resolve) => setTimeout(resolve, delay)).then(() => {
+        if (signal.aborted) throw signal.reason;
+        return attemptLoad(attempt + 1, signal);
+      });
     });
 
-  const LazyComponent: FunctionComponent<any> = (props) => {
+  const loadModule = (): Promise<T> => {
+    const controller = new AbortController();
+    signal = controller.signal;
+
+    const loading = attemptLoad(1, controller.signal)
+      .then((m) => {
+        const resolved = select(m);
+        if (resolved == null) throw new Error(`lazy(): ${missing}`);
+        if (debugHooks._lazyLoaded) debugHooks._lazyLoaded(resolved);
+        return resolved;
+      })
+      .then(
+        (c) => {
+          component = c;
+          return c;
+        },
+        (err) => {
+          // An aborted load isn't a failure: the next render starts over.
+          if (!controller.signal.aborted) {
+            failed = true;
+            error = err;
+          }
+          throw err;
+        }
+      );
+
+    let waiting = 0;
+    cancelables.set(loading, {
+      _retain: () => {
+        waiting++;
+      },
+      _release: () => {
+        if (--waiting > 0 || component !== undefined || failed) return;
+        controller.abort();
+        if (promise === loading) promise = undefined;
+      },
+    });
+
+    return loading;
+  };
+
+  const LazyComponent: FunctionComponent<any> = function (this: object, props) {
     const [, update] = useState(0);
     const ref = useRef(component);
 
+    if (id) {
+      collectors.forEach((ids) => ids.add(id));
+      const collected = collectorFor((this as InternalComponent).__v);
+      if (collected) collected.chunks.add(id);
+    }
     if (!promise) promise = loadModule();
-    if (component !== undefined) return createElement(component, props);
+    if (component !== undefined) return createElement(component as ComponentType<any>, props);
+    if (failed) throw error;
     if (!ref.current) {
       ref.current = undefined as any;
-      promise.then(() => update(1));
+      const loadSignal = signal!;
+      const self = this;
+      // A Suspense boundary batches re-rendering with its own update.
+      const rerender = () => {
+        if (!loadSignal.aborted && !updatedByBoundary.has(self)) update(1);
+      };
+      promise.then(rerender, rerender);
     }
     throw promise;
   };
 
   (LazyComponent as any).preload = () => {
     if (!promise) promise = loadModule();
+    // A preloaded load is wanted whether or not anything is waiting on it,
+    // so hold a retain no boundary releases.
+    if (preloaded !== promise) {
+      preloaded = promise;
+      cancelables.get(promise)!._retain();
+    }
     return promise;
   };
 
-  (LazyComponent as any)._forwarded = true;
+  // Called by a Suspense boundary's `retry()` so a failed load starts over.
+  (LazyComponent as any)._reset = () => {
+    if (!failed) return;
+    failed = false;
+    error = undefined;
+    promise = undefined;
+  };
+
+  (LazyComponent as any).__f = true;
   LazyComponent.displayName = 'Lazy';
 
+  if (id) chunks.set(id, LazyComponent as any);
+
   return LazyComponent as any;
 }
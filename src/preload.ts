@@ -0,0 +1,138 @@
+import type { RefObject } from 'preact';
+import { useEffect } from 'preact/hooks';
+
+/** Anything with a `preload()`, like the components returned by `lazy()`. */
+interface Preloadable {
+  preload: () => Promise<unknown>;
+}
+
+// `preload()` hands out the promise the component suspends on, so a failed
+// load is still thrown when it renders; nothing needs to handle it here.
+function preload(component: Preloadable) {
+  component.preload().catch(() => {});
+}
+
+/**
+ * Preload `component` once the element in `ref` scrolls into view.
+ *
+ * Usage:
+ *   const ref = useRef(null);
+ *   usePreloadOnVisible(ref, Comments);
+ *   <section ref={ref}>{open && <Comments />}</section>
+ *
+ * Without IntersectionObserver support, the component preloads right away.
+ */
+export function usePreloadOnVisible(
+  ref: RefObject<Element>,
+  component: Preloadable,
+  options?: IntersectionObserverInit
+) {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    if (typeof IntersectionObserver === 'undefined') {
+      preload(component);
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        observer.disconnect();
+        preload(component);
+      }
+    }, options);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, component]);
+}
+
+/**
+ * Preload `component` when the user shows intent to interact with the
+ * element in `ref`: hovering or focusing it for `delayMs`, or touching it.
+ *
+ * Usage:
+ *   const ref = useRef(null);
+ *   usePreloadOnIntent(ref, SettingsDialog);
+ *   <button ref={ref} onClick={() => setOpen(true)}>Settings</button>
+ */
+export function usePreloadOnIntent(
+  ref: RefObject<Element>,
+  component: Preloadable,
+  delayMs = 50
+) {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cancel = () => {
+      clearTimeout(timer);
+      timer = undefined;
+    };
+    const now = () => {
+      cancel();
+      detach();
+      preload(component);
+    };
+    const soon = () => {
+      if (!timer) timer = setTimeout(now, delayMs);
+    };
+
+    const listeners: Array<[string, () => void]> = [
+      ['pointerenter', soon],
+      ['focusin', soon],
+      ['pointerleave', cancel],
+      ['focusout', cancel],
+      ['touchstart', now],
+    ];
+    const detach = () => {
+      listeners.forEach(([type, fn]) => element.removeEventListener(type, fn));
+    };
+    listeners.forEach(([type, fn]) =>
+      element.addEventListener(type, fn, { passive: true })
+    );
+
+    return () => {
+      cancel();
+      detach();
+    };
+  }, [ref, component, delayMs]);
+}
+
+/**
+ * Preload `components` one by one while the browser is idle, falling back
+ * to timers where `requestIdleCallback` isn't available.
+ *
+ * Usage:
+ *   preloadOnIdle([Settings, Profile, Billing]);
+ *
+ * Returns a function that cancels the components not yet preloaded.
+ */
+export function preloadOnIdle(components: Preloadable[], options?: { timeout?: number }) {
+  const queue = components.slice();
+  const hasIdle = typeof requestIdleCallback !== 'undefined';
+  let handle: any;
+
+  const schedule = () => {
+    handle = hasIdle
+      ? requestIdleCallback(run, options)
+      : setTimeout(() => run(null), 1);
+  };
+
+  const run = (deadline: IdleDeadline | null) => {
+    // Always preload one component, then carry on while there's idle time left.
+    do {
+      preload(queue.shift()!);
+    } while (queue.length && deadline && deadline.timeRemaining() > 0);
+    if (queue.length) schedule();
+  };
+
+  if (queue.length) schedule();
+
+  return () => {
+    queue.length = 0;
+    if (hasIdle) cancelIdleCallback(handle);
+    else clearTimeout(handle);
+  };
+}
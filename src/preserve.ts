@@ -0,0 +1,145 @@
+import { options } from 'preact';
+import type { InternalComponent, InternalHookState, InternalVNode } from './internal';
+
+// The hook types Preact passes to `options.__h` for `useEffect`,
+// `useLayoutEffect` and `useImperativeHandle`.
+const EFFECT_HOOKS = [3, 4, 6];
+
+// The hook types Preact runs at commit rather than after paint.
+const LAYOUT_HOOKS = [4, 6];
+
+/** The types of each component's effect hooks, by hook index. */
+const effectHooks = new WeakMap<InternalComponent, Map<number, number>>();
+
+/** Hooks whose effect is waiting to run again after the next paint. */
+const pendingRuns = new WeakSet<InternalHookState>();
+
+let effectTrackingInstalled = false;
+
+/**
+ * Start recording which hooks are effects, since their state doesn't say.
+ * Called by boundaries that preserve their children before those render.
+ */
+export function installEffectTracking() {
+  if (effectTrackingInstalled) return;
+  effectTrackingInstalled = true;
+
+  const oldHook = (options as any).__h;
+  (options as any).__h = (c: InternalComponent, index: number, type: number) => {
+    if (EFFECT_HOOKS.indexOf(type) !== -1) {
+      let types = effectHooks.get(c);
+      if (!types) effectHooks.set(c, (types = new Map()));
+      types.set(index, type);
+    }
+    if (oldHook) oldHook(c, index, type);
+  };
+}
+
+/** Call `callback` after the next paint, the way `preact/hooks` runs effects. */
+function afterPaint(callback: () => void) {
+  if (options.requestAnimationFrame) return options.requestAnimationFrame(callback);
+  const done = () => {
+    clearTimeout(timeout);
+    if (typeof cancelAnimationFrame !== 'undefined') cancelAnimationFrame(frame);
+    setTimeout(callback);
+  };
+  // Background tabs don't paint: don't wait on them forever.
+  const timeout = setTimeout(done, 35);
+  let frame: number;
+  if (typeof requestAnimationFrame !== 'undefined') frame = requestAnimationFrame(done);
+}
+
+interface Restores {
+  _dom: Array<() => void>;
+  _layoutEffects: Array<() => void>;
+  _effects: Array<() => void>;
+}
+
+function walk(vnode: InternalVNode, restores: Restores, hideDom: boolean) {
+  const c = vnode.__c;
+  const hooks = c && c.__H;
+  if (hooks) {
+    const types = effectHooks.get(c!);
+    hooks.__.forEach((hook, index) => {
+      const type = types && types.get(index);
+      // Components that rendered before tracking started only give their
+      // effects away by the cleanup they hold.
+      if (type === undefined && typeof hook.__c !== 'function') return;
+      pendingRuns.delete(hook);
+      if (typeof hook.__c === 'function') hook.__c();
+      hook.__c = undefined;
+      const run = () => {
+        // The effect may have run again while hidden, when its component
+        // re-rendered: clean that run up before running it once more.
+        if (typeof hook.__c === 'function') hook.__c();
+        hook.__c = hook.__();
+      };
+      if (type !== undefined && LAYOUT_HOOKS.indexOf(type) !== -1) {
+        restores._layoutEffects.push(run);
+      } else {
+        restores._effects.push(() => {
+          // Preact already runs it after paint: its component just
+          // re-rendered with new dependencies.
+          if (hooks.__h && hooks.__h.indexOf(hook) !== -1) return;
+          pendingRuns.add(hook);
+          afterPaint(() => {
+            // Hidden again or unmounted in the meantime.
+            if (!pendingRuns.delete(hook) || !(c as any).__P) return;
+            run();
+          });
+        });
+      }
+    });
+  }
+
+  const dom = vnode.__e;
+  if (hideDom && dom && typeof vnode.type === 'string') {
+    const el = dom as HTMLElement;
+    const display = el.style.display;
+    el.style.display = 'none';
+    restores._dom.push(() => {
+      el.style.display = display;
+    });
+    hideDom = false;
+  } else if (hideDom && dom && vnode.type == null) {
+    const text = dom as Text;
+    const data = text.data;
+    text.data = '';
+    restores._dom.push(() => {
+      text.data = data;
+    });
+  }
+
+  if (vnode.__k) {
+    vnode.__k.forEach((child) => {
+      if (child) walk(child, restores, hideDom);
+    });
+  }
+}
+
+/** A subtree hidden by `hideSubtree()`. */
+export interface HiddenSubtree {
+  /** Show the DOM again, before the subtree re-renders. */
+  _show(): void;
+  /**
+   * Re-run every effect once the DOM is back, after commit: layout effects
+   * right away, the others after the next paint.
+   */
+  _runEffects(): void;
+}
+
+/**
+ * Hide the DOM rendered by `vnode` and run the cleanups of the effects in
+ * its subtree, keeping components and their state mounted.
+ */
+export function hideSubtree(vnode: InternalVNode): HiddenSubtree {
+  const restores: Restores = { _dom: [], _layoutEffects: [], _effects: [] };
+  walk(vnode, restores, true);
+  return {
+    _show: () => restores._dom.forEach((restore) => restore()),
+    _runEffects: () => {
+      restores._layoutEffects.forEach((run) => run());
+      restores._effects.forEach((run) => run());
+    },
+  };
+}
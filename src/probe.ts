@@ -0,0 +1,66 @@
+import { createElement, isValidElement, options, type ComponentChildren } from 'preact';
+import type { InternalVNode } from './internal';
+
+/** Vnodes rendered inside a probe. */
+const probeVNodes = new WeakSet<InternalVNode>();
+/**
+ * The props of each probe's `<template>`. Preact may render a copy of the
+ * vnode itself, but not of its props.
+ */
+const probeProps = new WeakSet<object>();
+
+let probeHooksInstalled = false;
+
+function installProbeHooks() {
+  if (probeHooksInstalled) return;
+  probeHooksInstalled = true;
+
+  const oldDiff = (options as any).__b;
+  (options as any).__b = (vnode: InternalVNode) => {
+    if (probeProps.has(vnode.props)) {
+      probeVNodes.add(vnode);
+    } else if (vnode.__ && probeVNodes.has(vnode.__)) {
+      probeVNodes.add(vnode);
+      // Refs point at what is on screen, not at its offscreen copy.
+      vnode.ref = null;
+    }
+    if (oldDiff) oldDiff(vnode);
+  };
+
+  const oldDiffed = options.diffed;
+  options.diffed = (vnode) => {
+    const c = (vnode as InternalVNode).__c as any;
+    if (c && probeVNodes.has(vnode as InternalVNode)) {
+      // Drop the lifecycle methods, layout effects and effects the render
+      // queued, before `preact/hooks` schedules them.
+      c.__h = [];
+      if (c.__H) c.__H.__h = [];
+    }
+    if (oldDiffed) oldDiffed(vnode);
+  };
+}
+
+/**
+ * Copy the vnodes passed in as children, so nulling the refs of the copies
+ * leaves the ones rendered on screen alone.
+ */
+function copyChildren(children: ComponentChildren): ComponentChildren {
+  if (Array.isArray(children)) return children.map(copyChildren);
+  if (!isValidElement(children)) return children;
+  const props = { ...(children.props as any), key: children.key };
+  if ('children' in props) props.children = copyChildren(props.children);
+  return createElement(children.type as any, props);
+}
+
+/**
+ * Render `children` inside a `<template>`, where they mount without being
+ * shown and without running effects or setting refs. Rendering a probe
+ * starts whatever its components suspend on, without touching the tree on
+ * screen; once nothing is pending the children render there for real.
+ */
+export function createProbe(children: ComponentChildren): InternalVNode {
+  installProbeHooks();
+  const probe = createElement('template', null, copyChildren(children)) as InternalVNode;
+  probeProps.add(probe.props);
+  return probe;
+}
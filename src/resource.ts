@@ -0,0 +1,253 @@
+import { options, type Component } from 'preact';
+import { collectorFor, type RenderData } from './collect';
+import type { InternalComponent, InternalVNode } from './internal';
+import { registerReset } from './suspense';
+
+export interface Entry<T> {
+  status: 'pending' | 'resolved' | 'rejected';
+  promise: Promise<T>;
+  value?: T;
+  error?: unknown;
+}
+
+interface ResourceEntry<T> extends Entry<T> {
+  readers: Set<Component>;
+}
+
+export interface Resource<K, T> {
+  /** Return the value for `key`, suspending while it is being fetched. */
+  read(key: K): T;
+  /** Start fetching `key` without rendering anything. */
+  preload(key: K): Promise<T>;
+  /**
+   * Drop the cached value for `key` (or every key), so components reading
+   * it suspend and fetch it again.
+   */
+  invalidate(key?: K): void;
+  /**
+   * Fetch `key` again while components keep showing the cached value,
+   * re-rendering them once the new value has arrived.
+   */
+  refresh(key: K): Promise<T>;
+}
+
+export interface ResourceOptions {
+  /**
+   * A stable id for the resource. Server renders record the values read
+   * from resources with an id, so the client can restore them before
+   * hydrating (see `collectSuspenseData` and `restoreSuspenseData`).
+   */
+  id?: string;
+}
+
+/** `[key, value]` pairs per resource id, as transferred from the server. */
+export type ResourceEntries = Record<string, [unknown, unknown][]>;
+
+let currentVNode: InternalVNode | undefined;
+
+let renderHookInstalled = false;
+function installRenderHook() {
+  if (renderHookInstalled) return;
+  renderHookInstalled = true;
+
+  const oldRender = (options as any).__r;
+  (options as any).__r = (vnode: InternalVNode) => {
+    currentVNode = vnode;
+    if (oldRender) oldRender(vnode);
+  };
+
+  const oldDiffed = options.diffed;
+  options.diffed = (vnode) => {
+    currentVNode = undefined;
+    if (oldDiffed) oldDiffed(vnode);
+  };
+}
+
+function track<T>(promise: Promise<T>): Entry<T> {
+  const entry: Entry<T> = { status: 'pending', promise };
+  promise.then(
+    (value) => {
+      entry.status = 'resolved';
+      entry.value = value;
+    },
+    (error) => {
+      entry.status = 'rejected';
+      entry.error = error;
+    }
+  );
+  return entry;
+}
+
+function unwrap<T>(entry: Entry<T>, reset?: () => void): T {
+  if (entry.status === 'resolved') return entry.value as T;
+  if (entry.status === 'rejected') {
+    if (reset && currentVNode) registerReset(currentVNode, reset);
+    throw entry.error;
+  }
+  throw entry.promise;
+}
+
+function rerender(readers: Set<Component>) {
+  readers.forEach((c) => {
+    // Unmounted components have lost their parent DOM node.
+    if ((c as any).__P) c.forceUpdate();
+    else readers.delete(c);
+  });
+}
+
+/** Seed functions of the resources created with an `id`. */
+const seeders = new Map<string, (entries: [unknown, unknown][]) => void>();
+
+/** Transferred entries of resources that haven't been created yet. */
+const transferred = new Map<string, [unknown, unknown][]>();
+
+/** The resolved values among the collected entries, ready to be serialized. */
+export function getResolvedEntries(from: RenderData['entries']): ResourceEntries {
+  const result: ResourceEntries = {};
+  from.forEach((entries, id) => {
+    entries.forEach((entry, key) => {
+      if (entry.status !== 'resolved') return;
+      (result[id] || (result[id] = [])).push([key, entry.value]);
+    });
+  });
+  return result;
+}
+
+/**
+ * Fill the caches of resources with the entries a server render recorded.
+ * Resources created later pick up their entries when they are created.
+ */
+export function restoreResourceEntries(data: ResourceEntries) {
+  Object.keys(data).forEach((id) => {
+    const seed = seeders.get(id);
+    if (seed) seed(data[id]);
+    else transferred.set(id, data[id]);
+  });
+}
+
+const promises = new WeakMap<Promise<any>, Entry<any>>();
+
+/**
+ * Read the value of a promise, suspending until it settles. A rejection
+ * is thrown as a regular render error.
+ *
+ * Usage:
+ *   const user = use(userPromise);
+ *
+ * The promise has to be created outside of render (or cached), otherwise
+ * every render starts over with a new pending promise.
+ */
+export function use<T>(promise: Promise<T>): T {
+  let entry = promises.get(promise);
+  if (!entry) promises.set(promise, (entry = track(promise)));
+  return unwrap(entry);
+}
+
+/**
+ * Create a suspending data source whose values are cached by key.
+ *
+ * Usage:
+ *   const users = createResource((id: string) => fetchUser(id));
+ *
+ *   function Profile({ id }) {
+ *     const user = users.read(id);
+ *     return <h1>{user.name}</h1>;
+ *   }
+ *
+ * Keys are compared like `Map` keys, so prefer strings or numbers over
+ * objects. A rejected fetch is thrown as a regular render error; a
+ * Suspense `errorFallback`'s `retry()` drops it so the key is fetched again.
+ *
+ * Give it an `id` to transfer the values a server render read to the
+ * client, so hydration doesn't fetch them again:
+ *   const users = createResource(fetchUser, { id: 'users' });
+ */
+export function createResource<K, T>(
+  fetcher: (key: K) => Promise<T>,
+  options: ResourceOptions = {}
+): Resource<K, T> {
+  installRenderHook();
+
+  const { id } = options;
+  const cache = new Map<K, ResourceEntry<T>>();
+
+  if (id) {
+    const seed = (entries: [unknown, unknown][]) => {
+      entries.forEach(([key, value]) => {
+        if (cache.has(key as K)) return;
+        const promise = Promise.resolve(value as T);
+        cache.set(key as K, { status: 'resolved', promise, value: value as T, readers: new Set() });
+      });
+    };
+    seeders.set(id, seed);
+    const entries = transferred.get(id);
+    if (entries) {
+      transferred.delete(id);
+      seed(entries);
+    }
+  }
+
+  const load = (key: K, readers = new Set<Component>()) => {
+    const entry = track(fetcher(key)) as ResourceEntry<T>;
+    entry.readers = readers;
+    return entry;
+  };
+
+  const get = (key: K) => {
+    let entry = cache.get(key);
+    if (!entry) cache.set(key, (entry = load(key)));
+    const collected = id && collectorFor(currentVNode);
+    if (collected) {
+      let forResource = collected.entries.get(id!);
+      if (!forResource) collected.entries.set(id!, (forResource = new Map()));
+      forResource.set(key, entry);
+    }
+    return entry;
+  };
+
+  return {
+    read(key) {
+      const entry = get(key);
+      const c = currentVNode && (currentVNode.__c as InternalComponent | undefined);
+      // Only mounted components can re-render: server renders have no parent
+      // DOM node, and would only make the set grow.
+      if (c && (c as any).__P) entry.readers.add(c);
+
+      return unwrap(entry, () => {
+        if (cache.get(key) === entry) cache.delete(key);
+      });
+    },
+
+    preload(key) {
+      return get(key).promise;
+    },
+
+    invalidate(key?: K) {
+      const keys = key === undefined ? Array.from(cache.keys()) : [key];
+      keys.forEach((k) => {
+        const entry = cache.get(k);
+        if (!entry) return;
+        cache.delete(k);
+        rerender(entry.readers);
+      });
+    },
+
+    refresh(key) {
+      const prev = cache.get(key);
+      const next = load(key, prev ? prev.readers : undefined);
+
+      if (!prev || prev.status !== 'resolved') {
+        cache.set(key, next);
+        return next.promise;
+      }
+
+      const swap = () => {
+        if (cache.get(key) !== prev) return;
+        cache.set(key, next);
+        rerender(next.readers);
+      };
+      next.promise.then(swap, swap);
+      return next.promise;
+    },
+  };
+}
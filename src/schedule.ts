@@ -0,0 +1,27 @@
+/** When a boundary re-renders after the promises it waits on settle. */
+export type RevealScheduler = 'microtask' | 'animationFrame' | 'idle';
+
+/**
+ * Call `callback` at the point `scheduler` describes, falling back to a
+ * microtask where the browser API isn't available (e.g. on the server).
+ * Returns a function that cancels the call.
+ */
+export function scheduleReveal(scheduler: RevealScheduler, callback: () => void): () => void {
+  if (scheduler === 'animationFrame' && typeof requestAnimationFrame !== 'undefined') {
+    const handle = requestAnimationFrame(() => callback());
+    return () => cancelAnimationFrame(handle);
+  }
+  if (scheduler === 'idle' && typeof requestIdleCallback !== 'undefined') {
+    // Don't hold the content back for long on a busy page.
+    const handle = requestIdleCallback(() => callback(), { timeout: 1000 });
+    return () => cancelIdleCallback(handle);
+  }
+
+  let cancelled = false;
+  Promise.resolve().then(() => {
+    if (!cancelled) callback();
+  });
+  return () => {
+    cancelled = true;
+  };
+}
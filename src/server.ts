@@ -0,0 +1,159 @@
+import type { VNode } from 'preact';
+import { renderToReadableStream as renderToChunks } from 'preact-render-to-string/stream';
+import { collectRenderData, type RenderData } from './collect';
+import { collectRenderedChunks } from './lazy';
+import { getResolvedEntries } from './resource';
+import { SUSPENSE_DATA_ID, type SuspenseData } from './transfer';
+
+export interface RenderToReadableStreamOptions {
+  /** Nonce for the inline script that swaps resolved boundaries into place. */
+  nonce?: string;
+  /** Legacy context made available to the rendered tree. */
+  context?: any;
+}
+
+export interface SuspenseStream extends ReadableStream<Uint8Array> {
+  /** Resolves once every suspended boundary has been flushed. */
+  allReady: Promise<void>;
+}
+
+/**
+ * Render `vnode` to a stream of HTML without waiting for suspended
+ * subtrees.
+ *
+ * Usage:
+ *   const stream = renderToReadableStream(<App />);
+ *   return new Response(stream, { headers: { 'Content-Type': 'text/html' } });
+ *
+ * The page is streamed right away, with the fallback of each suspended
+ * Suspense boundary inlined between placeholder comments. As boundaries
+ * resolve, their HTML is flushed at the end of the stream along with a
+ * small inline script that moves it into the placeholder.
+ */
+export function renderToReadableStream(
+  vnode: VNode<any>,
+  options: RenderToReadableStreamOptions = {}
+): SuspenseStream {
+  return renderToChunks(vnode, { nonce: options.nonce }, options.context);
+}
+
+export interface LazyChunks<T> {
+  /** What the render function returned. */
+  result: T;
+  /** The ids of the `lazy()` components that were rendered. */
+  chunks: string[];
+}
+
+/**
+ * Call `render` and record the id of every `lazy()` component (created
+ * with an `id`) that it renders. When `render` returns a promise, lazy
+ * components are recorded until it settles.
+ *
+ * Usage:
+ *   const { result: html, chunks } = await collectLazyChunks(() =>
+ *     renderToStringAsync(<App />)
+ *   );
+ *   // Emit <link rel="modulepreload"> tags for `chunks`, and pass them to
+ *   // `preloadLazyChunks()` on the client before hydrating.
+ *
+ * Renders that overlap in time record each other's components too, which
+ * only means some extra chunks get preloaded.
+ */
+export function collectLazyChunks<T>(render: () => Promise<T>): Promise<LazyChunks<T>>;
+export function collectLazyChunks<T>(render: () => T): LazyChunks<T>;
+export function collectLazyChunks<T>(render: () => T): LazyChunks<T> | Promise<LazyChunks<any>> {
+  const ids = new Set<string>();
+  return collect(render, collectRenderedChunks(ids), (result) => ({ result, chunks: Array.from(ids) }));
+}
+
+export interface CollectedSuspenseData<T> {
+  /** What the render function returned. */
+  result: T;
+  /** The data to pass to `serializeSuspenseData()`. */
+  data: SuspenseData;
+}
+
+/**
+ * Call `render` and record what the client needs to hydrate it without
+ * suspending: the values read from resources created with an `id`, and
+ * the ids of the `lazy()` components rendered. When `render` returns a
+ * promise, they are recorded until it settles.
+ *
+ * Usage:
+ *   const { result: html, data } = await collectSuspenseData(() =>
+ *     renderToStringAsync(<App />)
+ *   );
+ *   // Write serializeSuspenseData(data) into the page, and call
+ *   // `restoreSuspenseData()` on the client before hydrating.
+ *
+ * Only the renders `render` starts before it returns are recorded, so
+ * requests rendered at the same time never get each other's data; start
+ * rendering before awaiting anything. Only values that resolved are
+ * recorded; the client fetches the others again. Values have to survive
+ * `JSON.stringify()`, and resource keys are best kept to strings or numbers.
+ */
+export function collectSuspenseData<T>(render: () => Promise<T>): Promise<CollectedSuspenseData<T>>;
+export function collectSuspenseData<T>(render: () => T): CollectedSuspenseData<T>;
+export function collectSuspenseData<T>(render: () => T): CollectedSuspenseData<T> | Promise<CollectedSuspenseData<any>> {
+  const collected: RenderData = { entries: new Map(), chunks: new Set() };
+  let started = false;
+  const renderAndCollect = () => {
+    const run = collectRenderData(collected, render);
+    started = run.started;
+    return run.result;
+  };
+
+  return collect(renderAndCollect, () => {}, (result) => {
+    if (!started) {
+      throw new Error('collectSuspenseData(): `render` has to start the server render before it awaits anything');
+    }
+    return {
+      result,
+      data: { resources: getResolvedEntries(collected.entries), chunks: Array.from(collected.chunks) },
+    };
+  });
+}
+
+/**
+ * Render the data recorded by `collectSuspenseData()` as a
+ * `<script type="application/json">` element, for `restoreSuspenseData()`
+ * to read on the client.
+ *
+ * Usage:
+ *   html += serializeSuspenseData(data);
+ *
+ * Place it outside of the element the app hydrates into.
+ */
+export function serializeSuspenseData(data: SuspenseData, id: string = SUSPENSE_DATA_ID): string {
+  // Keep a `</script>` inside a value from ending the element early.
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  const attr = id.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  return `<script type="application/json" id="${attr}">${json}</script>`;
+}
+
+/** Run `render`, then call `stop` and `done` with its result, once it settles if it's a promise. */
+function collect<T, R>(render: () => T, stop: () => void, done: (result: any) => R): R | Promise<R> {
+  let result: T;
+  try {
+    result = render();
+  } catch (err) {
+    stop();
+    throw err;
+  }
+
+  if (result && typeof (result as any).then === 'function') {
+    return Promise.resolve(result).then(
+      (value) => {
+        stop();
+        return done(value);
+      },
+      (err) => {
+        stop();
+        throw err;
+      }
+    );
+  }
+
+  stop();
+  return done(result);
+}
@@ -0,0 +1,68 @@
+import { computed, signal, type ReadonlySignal } from '@preact/signals';
+import { use } from './resource';
+
+interface Settled<T> {
+  promise: Promise<T>;
+  failed: boolean;
+  value?: T;
+  error?: unknown;
+}
+
+/**
+ * Create a signal from an async function. Like `computed()`, `fn` runs
+ * again whenever a signal it reads (before its first `await`) changes.
+ *
+ * Reading `.value` suspends the component to the nearest Suspense while
+ * the latest promise is pending, and throws its rejection as a regular
+ * render error. Components reading it re-render when it resolves.
+ *
+ * Usage:
+ *   const userId = signal(1);
+ *   const user = asyncComputed(() => fetchUser(userId.value));
+ *
+ *   function Profile() {
+ *     return <h1>{user.value.name}</h1>;
+ *   }
+ */
+export function asyncComputed<T>(fn: () => Promise<T>): ReadonlySignal<T> {
+  const promise = computed(fn);
+  const settled = signal<Settled<T> | null>(null);
+  let watching: Promise<T> | undefined;
+
+  return computed(() => {
+    const current = promise.value;
+    const result = settled.value;
+    if (result && result.promise === current) {
+      if (result.failed) throw result.error;
+      return result.value as T;
+    }
+
+    if (watching !== current) {
+      watching = current;
+      current.then(
+        (value) => {
+          if (watching === current) settled.value = { promise: current, failed: false, value };
+        },
+        (error) => {
+          if (watching === current) settled.value = { promise: current, failed: true, error };
+        }
+      );
+    }
+    throw current;
+  });
+}
+
+/**
+ * Read a signal in a component, suspending to the nearest Suspense while
+ * it is loading. Works with `asyncComputed()` signals, and with signals
+ * holding a promise, which suspends until that promise settles.
+ *
+ * Usage:
+ *   const user = useSignalSuspense(userSignal);
+ *
+ * The component re-renders whenever the signal changes.
+ */
+export function useSignalSuspense<T>(source: ReadonlySignal<T | Promise<T>>): T {
+  const value = source.value;
+  return value && typeof (value as any).then === 'function' ? use(value as Promise<T>) : (value as T);
+}
@@ -0,0 +1,67 @@
+import { createContext } from 'preact';
+import { useContext, useEffect, useState } from 'preact/hooks';
+
+export interface SuspenseStatus {
+  /** Whether the boundary is waiting on any suspended child. */
+  pending: boolean;
+  /** How many distinct promises the boundary is waiting on. */
+  pendingCount: number;
+  /** When the current suspension started (`Date.now()`), or `null`. */
+  since: number | null;
+}
+
+/**
+ * Holds the latest status of a boundary. The store itself never changes,
+ * so providing it doesn't re-render the boundary's children; consumers
+ * subscribe to it instead.
+ */
+export interface SuspenseStatusStore {
+  _status: SuspenseStatus;
+  _listeners: Set<() => void>;
+}
+
+const IDLE: SuspenseStatus = { pending: false, pendingCount: 0, since: null };
+
+export const SuspenseStatusContext = createContext<SuspenseStatusStore | null>(null);
+
+export function createStatusStore(): SuspenseStatusStore {
+  return { _status: IDLE, _listeners: new Set() };
+}
+
+export function setStatus(store: SuspenseStatusStore, pendingCount: number, since: number) {
+  const prev = store._status;
+  if (prev.pendingCount === pendingCount && (!pendingCount || prev.since === since)) return;
+
+  store._status = pendingCount
+    ? { pending: true, pendingCount, since }
+    : IDLE;
+  store._listeners.forEach((listener) => listener());
+}
+
+/**
+ * Read the status of the nearest Suspense boundary. The component
+ * re-renders whenever that status changes.
+ *
+ * Usage:
+ *   const { pending, pendingCount, since } = useSuspenseStatus();
+ *
+ * Outside of any boundary, the status is never pending.
+ */
+export function useSuspenseStatus(): SuspenseStatus {
+  const store = useContext(SuspenseStatusContext);
+  // Only used to re-render when the store's status changes.
+  const [, setSeen] = useState(store && store._status);
+
+  useEffect(() => {
+    if (!store) return;
+    const sync = () => setSeen(store._status);
+    store._listeners.add(sync);
+    // Catch up with changes made between render and subscribing.
+    sync();
+    return () => {
+      store._listeners.delete(sync);
+    };
+  }, [store]);
+
+  return store ? store._status : IDLE;
+}
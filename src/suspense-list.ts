@@ -0,0 +1,192 @@
+import { Component, createElement, Fragment, type ComponentChildren } from 'preact';
+import type { InternalComponent, InternalVNode } from './internal';
+
+export type RevealOrder = 'forwards' | 'backwards' | 'together';
+export type TailMode = 'collapsed' | 'hidden';
+
+/**
+ * What a boundary renders while its list does not allow it to reveal:
+ * its own fallback, nothing at all, or (`null`) whatever it would
+ * render on its own.
+ */
+export type ListHold = 'fallback' | 'hidden' | null;
+
+interface SuspenseListProps {
+  revealOrder?: RevealOrder;
+  tail?: TailMode;
+  children?: ComponentChildren;
+}
+
+interface ListedBoundary extends InternalComponent {
+  _pendingCount: number;
+  _setHold(hold: ListHold): void;
+}
+
+/**
+ * Collect the nearest Suspense boundaries below `vnode` in tree order.
+ * Boundaries are recognised the same way the catch hook finds them, by
+ * their `__c` handler. We don't descend into boundaries (their own
+ * children belong to them) nor into nested lists.
+ */
+function collectBoundaries(vnode: InternalVNode, out: ListedBoundary[]) {
+  const children = vnode.__k;
+  if (!children) return;
+
+  for (const child of children) {
+    if (!child) continue;
+    const c = child.__c;
+    if (c && c.__c) {
+      out.push(c as ListedBoundary);
+    } else if (child.type !== SuspenseList) {
+      collectBoundaries(child, out);
+    }
+  }
+}
+
+/**
+ * Find the list coordinating the boundary rendered by `vnode`, if any.
+ * Only the closest boundaries below a list take part, so the walk stops
+ * as soon as it meets another Suspense boundary.
+ */
+export function findSuspenseList(vnode: InternalVNode | undefined): SuspenseList | null {
+  let v = vnode;
+  while (v && (v = v.__)) {
+    if (v.type === SuspenseList) return v.__c as SuspenseList;
+    if (v.__c && v.__c.__c) return null;
+  }
+  return null;
+}
+
+/**
+ * Coordinates the order in which sibling Suspense boundaries reveal
+ * their content.
+ *
+ * Usage:
+ *   <SuspenseList revealOrder="forwards" tail="collapsed">
+ *     <Suspense fallback={<Spinner />}><Post id={1} /></Suspense>
+ *     <Suspense fallback={<Spinner />}><Post id={2} /></Suspense>
+ *   </SuspenseList>
+ *
+ * Boundaries report to the list whenever they mount, suspend or settle;
+ * the list then decides, per boundary, whether it may show its content
+ * yet.
+ */
+export class SuspenseList extends Component<SuspenseListProps> {
+  private _scheduled = false;
+  private _unmounted = false;
+  /** Boundaries the list has coordinated. */
+  private _seen = new WeakSet<ListedBoundary>();
+  /**
+   * Boundaries that have rendered their children, so their pending count
+   * says whether those suspend.
+   */
+  private _known = new WeakSet<ListedBoundary>();
+
+  /**
+   * Re-evaluate the boundaries once the current render has settled, so a
+   * burst of suspensions and resolutions is coordinated in one pass.
+   */
+  _schedule() {
+    if (this._scheduled) return;
+    this._scheduled = true;
+
+    Promise.resolve().then(() => {
+      this._scheduled = false;
+      if (!this._unmounted) this._coordinate();
+    });
+  }
+
+  /**
+   * What `boundary` may show while it renders. Asking during render keeps
+   * held content from ever mounting. Only the boundaries that rendered
+   * before it are known by then, which is enough for `forwards`; with any
+   * other order a boundary waits for the list to see its siblings first.
+   */
+  _holdFor(boundary: ListedBoundary): ListHold {
+    const { revealOrder } = this.props;
+    if (!revealOrder) return null;
+
+    const vnode = (this as InternalComponent).__v;
+    if (!vnode) return null;
+
+    const boundaries: ListedBoundary[] = [];
+    collectBoundaries(vnode, boundaries);
+    if (boundaries.indexOf(boundary) === -1) return null;
+
+    const hold = revealOrder !== 'forwards' && !this._seen.has(boundary)
+      ? this._holds(boundaries, (b) => b === boundary || b._pendingCount > 0).get(boundary)!
+      : this._holds(boundaries, (b) => b !== boundary && b._pendingCount > 0).get(boundary)!;
+    if (!hold && !this._known.has(boundary)) {
+      // Boundaries held back until it rendered may be let through now.
+      this._known.add(boundary);
+      this._schedule();
+    }
+    return hold;
+  }
+
+  private _coordinate() {
+    const vnode = (this as InternalComponent).__v;
+    if (!vnode) return;
+
+    const boundaries: ListedBoundary[] = [];
+    collectBoundaries(vnode, boundaries);
+    boundaries.forEach((boundary) => this._seen.add(boundary));
+
+    this._holds(boundaries, (b) => b._pendingCount > 0).forEach((hold, boundary) => {
+      boundary._setHold(hold);
+    });
+  }
+
+  /**
+   * A boundary that hasn't rendered its children yet can't tell whether
+   * they suspend: it holds back those after it like a pending one, but is
+   * itself let through to find out, unless the list is waiting anyway.
+   */
+  private _holds(boundaries: ListedBoundary[], isPending: (boundary: ListedBoundary) => boolean) {
+    const { revealOrder, tail } = this.props;
+    const holds = new Map<ListedBoundary, ListHold>();
+    const ordered = revealOrder === 'backwards' ? boundaries.slice().reverse() : boundaries;
+    const isKnown = (boundary: ListedBoundary) => this._known.has(boundary);
+
+    const anyPending = ordered.some(isPending);
+    const allSettled = !anyPending && ordered.every(isKnown);
+    let blocked = false;
+    let tailShown = false;
+
+    for (const boundary of ordered) {
+      let hold: ListHold = null;
+
+      if (revealOrder === 'together') {
+        if (!allSettled && (anyPending || isKnown(boundary))) hold = 'fallback';
+      } else if (revealOrder === 'forwards' || revealOrder === 'backwards') {
+        if (blocked || isPending(boundary)) {
+          blocked = true;
+          if (tail === 'hidden' || (tail === 'collapsed' && tailShown)) {
+            hold = 'hidden';
+          } else {
+            hold = 'fallback';
+            tailShown = true;
+          }
+        } else if (!isKnown(boundary)) {
+          blocked = true;
+        }
+      }
+
+      holds.set(boundary, hold);
+    }
+
+    return holds;
+  }
+
+  componentDidUpdate() {
+    this._schedule();
+  }
+
+  componentWillUnmount() {
+    this._unmounted = true;
+  }
+
+  render() {
+    return createElement(Fragment, null, this.props.children);
+  }
+}
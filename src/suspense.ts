@@ -1,31 +1,112 @@
-import { Component, options, createElement, Fragment, type VNode, type ComponentChildren } from 'preact';
-
-const MODE_HYDRATE = 1 << 5;
-
-
-interface InternalVNode extends VNode {
-  __?: InternalVNode;
-  __c?: InternalComponent;
-  __e?: Element | Text;
-  __k?: InternalVNode[];
-  __u?: number;
-  __h?: boolean;
-}
-
-interface InternalComponent extends Component {
-  __c?: (error: Promise<any>, suspendingVNode: InternalVNode) => void;
-  __v?: InternalVNode;
-}
+import { Component, options, createElement, Fragment, type ComponentChildren } from 'preact';
+import {
+  MODE_HYDRATE,
+  cancelables,
+  getDisplayName,
+  updatedByBoundary,
+  type InternalComponent,
+  type InternalVNode,
+} from './internal';
+import { findSuspenseList, type ListHold } from './suspense-list';
+import { getCurrentTransition, trackTransition } from './transition';
+import { hideSubtree, installEffectTracking, type HiddenSubtree } from './preserve';
+import { createProbe } from './probe';
+import { emitSuspenseEvent, type ResolveInfo, type SuspendInfo } from './telemetry';
+import { SuspenseStatusContext, createStatusStore, setStatus } from './status';
+import { mountedBoundaries, type Suspender } from './inspect';
+import { scheduleReveal, type RevealScheduler } from './schedule';
 
 interface SuspenseProps {
   fallback?: ComponentChildren;
+  errorFallback?: (error: unknown, retry: () => void) => ComponentChildren;
+  /** Don't show the fallback until a suspension has lasted this long. */
+  delayMs?: number;
+  /** Once the fallback is shown, keep it for at least this long. */
+  minDurationMs?: number;
+  /**
+   * Keep the children mounted, but hidden and with their effects paused,
+   * while the fallback is shown.
+   */
+  preserveChildren?: boolean;
+  /** Called whenever a child suspends. */
+  onSuspend?: (info: SuspendInfo) => void;
+  /** Called once the fallback has been rendered. */
+  onFallbackShown?: () => void;
+  /** Called when every pending suspension has settled. */
+  onResolve?: (info: ResolveInfo) => void;
+  /**
+   * Called when hydrating the children failed, because a suspension
+   * rejected or they didn't match the server markup. The boundary then drops the server-rendered
+   * markup, shows its fallback and renders the children on the client.
+   */
+  onRecoverableError?: (error: unknown) => void;
+  /**
+   * Give up on a suspension that hasn't settled after this long: render
+   * `timeoutFallback`, or fail with a timeout error.
+   */
+  timeoutMs?: number;
+  /** Called when `timeoutMs` runs out. */
+  onTimeout?: () => void;
+  /** Rendered instead of the fallback once `timeoutMs` runs out. */
+  timeoutFallback?: ComponentChildren;
+  /**
+   * Reset the boundary when any of these values changes: what it was
+   * waiting on is forgotten, an error is cleared and the children render
+   * again, suspending anew.
+   */
+  resetKeys?: unknown[];
+  /**
+   * Wait for a microtask, the next animation frame or an idle period before
+   * re-rendering once suspensions settle, handling every suspension that
+   * settled by then in a single update. By default the boundary updates
+   * right away, batched with whatever else Preact renders in that tick.
+   */
+  scheduler?: RevealScheduler;
   children?: ComponentChildren;
 }
 
+interface PendingSuspension extends Suspender {
+  /** Every component waiting on the promise, to update once it settles. */
+  _waiting: Set<InternalComponent>;
+}
+
 interface SuspenseState {
   suspended: boolean;
+  hold?: ListHold;
+  failure?: { error: unknown } | null;
+  timedOut?: boolean;
 }
 
+/**
+ * Register `reset` with the nearest boundary above `vnode` that renders an
+ * `errorFallback`, to be called when that boundary's `retry()` runs.
+ */
+export function registerReset(vnode: InternalVNode, reset: () => void) {
+  let v: InternalVNode | undefined = vnode;
+  while ((v = v!.__)) {
+    const c = v.__c as any;
+    if (c && c.__c && c.props.errorFallback) {
+      c._resets.push(reset);
+      return;
+    }
+  }
+}
+
+// Preact reports server markup that doesn't match what a `hydrate()` call
+// renders. Installed right away, since a mismatch can come before the first
+// Suspense is created.
+const oldMismatch = (options as any).__m;
+(options as any).__m = (vnode: InternalVNode, excessDomChildren: Array<Node | null> | null) => {
+  let v: InternalVNode | undefined = vnode;
+  while ((v = v!.__)) {
+    if (v.__c instanceof Suspense) {
+      v.__c._mismatch(vnode, excessDomChildren);
+      break;
+    }
+  }
+  if (oldMismatch) oldMismatch(vnode, excessDomChildren);
+};
+
 let catchErrorInstalled = false;
 function installCatchErrorHook() {
   if (catchErrorInstalled) return;
@@ -49,57 +130,499 @@ function installCatchErrorHook() {
           return (v.__c as any).__c(err, newVNode);
         }
       }
+    } else if (newVNode.type && (newVNode.type as any)._reset) {
+      // A lazy component failed to load: let the boundary that will show
+      // the error know how to reset it, so `retry()` loads it afresh.
+      registerReset(newVNode, (newVNode.type as any)._reset);
     }
     if (oldCatchError) oldCatchError(err, newVNode, oldVNode, errorInfo);
   };
 }
 
+function keysChanged(prev: unknown[] = [], next: unknown[] = []) {
+  return prev.length !== next.length || prev.some((key, i) => key !== next[i]);
+}
+
 export class Suspense extends Component<SuspenseProps, SuspenseState> {
   private _pendingCount = 0;
+  /** What the boundary is waiting on, by promise. */
+  private _pending = new Map<Promise<any>, PendingSuspension>();
+  private _status = createStatusStore();
+  private _resets: Array<() => void> = [];
+  private _mounted = false;
+  private _fallbackSince = 0;
+  private _delayTimer?: ReturnType<typeof setTimeout>;
+  private _minDurationTimer?: ReturnType<typeof setTimeout>;
+  private _timeoutTimer?: ReturnType<typeof setTimeout>;
+  /** Suspended components to re-render at the next reveal. */
+  private _settled = new Set<InternalComponent>();
+  private _cancelReveal?: () => void;
+  private _content?: InternalVNode;
+  /** The children `_content` was rendered from. */
+  private _contentChildren?: ComponentChildren;
+  /** A transition's new children, rendered offscreen while `_content` stays on screen. */
+  private _probe?: InternalVNode;
+  private _probeChildren?: ComponentChildren;
+  private _hiddenContent?: HiddenSubtree;
+  private _shownContent?: HiddenSubtree;
+  /** What the enclosing SuspenseList held back at the last render. */
+  private _hold: ListHold = null;
+  private _suspendedSince = 0;
+  private _suspenders: string[] = [];
+  /** Whether the children are still being hydrated from server markup. */
+  private _hydrating = false;
+  /** Server nodes left unclaimed by a hydration mismatch, to drop once committed. */
+  private _staleDom?: Array<Node | null>;
 
   constructor(props: SuspenseProps) {
     super(props);
     installCatchErrorHook();
-    this.state = { suspended: false };
+    this.state = { suspended: false, hold: null, failure: null };
+    this._retry = this._retry.bind(this);
   }
 
   __c(promise: Promise<any>, suspendingVNode: InternalVNode) {
     const c = this;
+
+    // The same promise can be thrown again, by a re-render of the component
+    // that suspended or by another component waiting on it: only count it once.
+    const pending = c._pending.get(promise);
+    if (pending) {
+      c._wait(pending, suspendingVNode);
+      return;
+    }
+    const componentName = getDisplayName(suspendingVNode);
+    const entry: PendingSuspension = {
+      promise,
+      vnode: suspendingVNode,
+      componentName,
+      startedAt: Date.now(),
+      _waiting: new Set(),
+    };
+    c._wait(entry, suspendingVNode);
+    c._pending.set(promise, entry);
+    const cancelable = cancelables.get(promise);
+    if (cancelable) cancelable._retain();
+
     const isHydrating =
       !!(suspendingVNode.__u && (suspendingVNode.__u & MODE_HYDRATE)) ||
       !!suspendingVNode.__h;
+    if (isHydrating) c._hydrating = true;
+
+    // During a transition, a boundary that is already showing its children
+    // keeps them on screen (like during hydration) rather than swapping to
+    // the fallback.
+    const transition = getCurrentTransition();
+    const keepChildren =
+      !!transition && c._mounted && !c.state.suspended && !c._hold;
 
-    let resolved = false;
-    const onResolved = () => {
-      if (resolved) return;
-      resolved = true;
+    const onSettled = (rejected: boolean, error?: unknown) => {
+      // The boundary was reset or unmounted since.
+      if (c._pending.get(promise) !== entry) return;
 
-      c._pendingCount--;
-      if (c._pendingCount <= 0) {
-        c._pendingCount = 0;
-        c.setState({ suspended: false });
+      // The server markup can't be hydrated: render on the client instead.
+      const recover = rejected && isHydrating && c._hydrating;
+      if (recover) {
+        const reset = (suspendingVNode.type as any)._reset;
+        if (reset) reset();
+        c._recover(error);
       }
+      c._pending.delete(promise);
+      c._pendingCount = c._pending.size;
+      if (c._pendingCount === 0) {
+        clearTimeout(c._timeoutTimer);
+        c._timeoutTimer = undefined;
+      }
+
+      if (recover) {
+        c._updateStatus();
+        if (c._pendingCount === 0) c._resolved();
+        return;
+      }
+
+      entry._waiting.forEach((waiting) => c._settled.add(waiting));
+      c._scheduleReveal();
+    };
+
+    if (c._pendingCount === 0) {
+      c._suspendedSince = Date.now();
+      c._suspenders = [];
+      c._startTimeout();
+    }
+    c._pendingCount = c._pending.size;
+    c._updateStatus();
+
+    if (c._suspenders.indexOf(componentName) === -1) c._suspenders.push(componentName);
+    const info: SuspendInfo = { promise, componentName, pendingCount: c._pendingCount };
+    if (c.props.onSuspend) c.props.onSuspend(info);
+    emitSuspenseEvent({ type: 'suspend', boundary: c, ...info });
+
+    if (keepChildren) {
+      trackTransition(transition!, promise);
+    } else if (!isHydrating) {
+      c._showFallback();
+    }
+    c._notifyList();
+
+    promise.then(
+      () => onSettled(false),
+      (error) => onSettled(true, error)
+    );
+  }
+
+  private _wait(entry: PendingSuspension, suspendingVNode: InternalVNode) {
+    const waiting = suspendingVNode.__c;
+    if (!waiting) return;
+    entry._waiting.add(waiting);
+    updatedByBoundary.add(waiting);
+  }
+
+  private _scheduleReveal() {
+    const { scheduler } = this.props;
+    if (!scheduler) return this._reveal();
+    if (this._cancelReveal) return;
+    this._cancelReveal = scheduleReveal(scheduler, () => {
+      this._cancelReveal = undefined;
+      this._reveal();
+    });
+  }
+
+  /** Apply every settled suspension since the last reveal in one update. */
+  private _reveal() {
+    const settled = this._settled;
+    this._settled = new Set();
+    // Nothing above the suspended components re-renders when they were
+    // kept on screen (transitions, hydration, preserveChildren), so update
+    // them directly. Unmounted ones have lost their parent DOM node.
+    settled.forEach((waiting) => {
+      if ((waiting as any).__P) waiting.forceUpdate();
+    });
+
+    this._updateStatus();
+    if (this._pendingCount === 0) {
+      this._resolved();
+      this._finishProbe();
+      this._hideFallback();
+    }
+  }
+
+  /** Render a probe's children on screen once nothing they need is pending. */
+  private _finishProbe() {
+    if (!this._probe) return;
+    this._probe = undefined;
+    // Render them in place of the current content, even mid-transition.
+    this._contentChildren = this._probeChildren;
+    this.forceUpdate();
+  }
+
+  private _stopReveal() {
+    if (this._cancelReveal) this._cancelReveal();
+    this._cancelReveal = undefined;
+    this._settled.clear();
+  }
+
+  /** The promises this boundary is waiting on, for `inspectSuspense()`. */
+  _getSuspenders(): Suspender[] {
+    const suspenders: Suspender[] = [];
+    this._pending.forEach(({ promise, vnode, componentName, startedAt }) => {
+      suspenders.push({ promise, vnode, componentName, startedAt });
+    });
+    return suspenders;
+  }
+
+  private _updateStatus() {
+    setStatus(this._status, this._pendingCount, this._suspendedSince);
+  }
+
+  private _startTimeout() {
+    const { timeoutMs } = this.props;
+    if (!timeoutMs || this._timeoutTimer) return;
+
+    this._timeoutTimer = setTimeout(() => {
+      this._timeoutTimer = undefined;
+      if (this._pendingCount === 0) return;
+
+      if (this.props.onTimeout) this.props.onTimeout();
+      if (this.props.timeoutFallback !== undefined) {
+        this.setState({ timedOut: true });
+      } else {
+        const error = new Error(`Suspense: timed out after ${timeoutMs}ms`);
+        this.setState({ failure: { error } });
+      }
+    }, timeoutMs);
+  }
+
+  private _showFallback() {
+    if (this._fallbackSince || this._delayTimer) return;
+
+    const { delayMs } = this.props;
+    if (!delayMs) return this._suspend();
+
+    this._delayTimer = setTimeout(() => {
+      this._delayTimer = undefined;
+      if (this._pendingCount > 0) this._suspend();
+    }, delayMs);
+  }
+
+  private _suspend() {
+    this._fallbackSince = Date.now();
+    this.setState({ suspended: true }, () => {
+      if (this.props.onFallbackShown) this.props.onFallbackShown();
+      emitSuspenseEvent({ type: 'fallback', boundary: this });
+    });
+  }
+
+  private _resolved() {
+    const info: ResolveInfo = {
+      durationMs: Date.now() - this._suspendedSince,
+      suspenders: this._suspenders,
     };
+    if (this.props.onResolve) this.props.onResolve(info);
+    emitSuspenseEvent({ type: 'resolve', boundary: this, ...info });
+  }
 
-    c._pendingCount++;
+  private _hideFallback() {
+    clearTimeout(this._delayTimer);
+    this._delayTimer = undefined;
 
-    if (!isHydrating) {
-      c.setState({ suspended: true });
+    const { minDurationMs = 0 } = this.props;
+    const remaining = this._fallbackSince + minDurationMs - Date.now();
+    if (this._fallbackSince && remaining > 0) {
+      if (this._minDurationTimer) return;
+      this._minDurationTimer = setTimeout(() => {
+        this._minDurationTimer = undefined;
+        if (this._pendingCount === 0) this._hideFallback();
+      }, remaining);
+      return;
     }
 
-    promise.then(onResolved, onResolved);
+    this._fallbackSince = 0;
+    this.setState({ suspended: false, timedOut: false });
+    this._notifyList();
+  }
+
+  /** Called by an enclosing SuspenseList to hold back or release this boundary. */
+  _setHold(hold: ListHold) {
+    if (this.state.hold !== hold || this._hold !== hold) this.setState({ hold });
+  }
+
+  /** Whether the enclosing SuspenseList holds this boundary back right now. */
+  private _listHold(): ListHold {
+    const list = findSuspenseList((this as InternalComponent).__v);
+    return list ? list._holdFor(this as any) : null;
+  }
+
+  private _notifyList() {
+    const list = findSuspenseList((this as InternalComponent).__v);
+    if (list) list._schedule();
+  }
+
+  componentDidCatch(error: unknown) {
+    if (!this.props.errorFallback) throw error;
+    this.setState({ failure: { error } });
+  }
+
+  /** Called when the children don't match the server markup they hydrate. */
+  _mismatch(vnode: InternalVNode, excessDomChildren: Array<Node | null> | null) {
+    // The first mismatch already gives up on the rest of the server markup.
+    if (this._staleDom) return;
+    this._staleDom = excessDomChildren || [];
+    this._recover(new Error(`Suspense: hydration mismatch, the server markup has no <${getDisplayName(vnode)}>`));
+  }
+
+  /**
+   * Remove the server nodes nothing claimed after a mismatch. Preact does
+   * so itself inside elements, but not at the top level of a `hydrate()`
+   * container.
+   */
+  private _dropStaleDom() {
+    const stale = this._staleDom;
+    if (!stale) return;
+    this._staleDom = undefined;
+    stale.forEach((node) => {
+      if (node && node.parentNode) node.parentNode.removeChild(node);
+    });
+  }
+
+  private _recover(error: unknown) {
+    this._hydrating = false;
+    this._stopReveal();
+    if (this.props.onRecoverableError) this.props.onRecoverableError(error);
+
+    // preact/compat nulls the type of hydrating vnodes when they unmount,
+    // which would break rendering the same children again.
+    this._pending.forEach(({ vnode }) => {
+      const v = vnode as InternalVNode;
+      if (v.__u) v.__u &= ~MODE_HYDRATE;
+    });
+
+    // Showing the fallback unmounts the children along with their server
+    // markup; once it has, render them again from scratch.
+    this._suspend();
+    this.setState({}, () => {
+      if (this._pendingCount === 0) this._hideFallback();
+    });
+  }
+
+  private _retry() {
+    const resets = this._resets;
+    this._resets = [];
+    resets.forEach((reset) => reset());
+    this.setState({ failure: null });
+    // Give suspensions that are still pending another `timeoutMs`.
+    if (this._pendingCount > 0) this._startTimeout();
+  }
+
+  private _reset() {
+    // Pending promises belong to the previous inputs: stop waiting on them.
+    this._pending.forEach((_, promise) => {
+      const cancelable = cancelables.get(promise);
+      if (cancelable) cancelable._release();
+    });
+    this._pending.clear();
+    this._pendingCount = 0;
+    this._stopReveal();
+    this._updateStatus();
+
+    clearTimeout(this._delayTimer);
+    clearTimeout(this._minDurationTimer);
+    clearTimeout(this._timeoutTimer);
+    this._delayTimer = this._minDurationTimer = this._timeoutTimer = undefined;
+    this._fallbackSince = 0;
+    this._probe = undefined;
+
+    const resets = this._resets;
+    this._resets = [];
+    resets.forEach((reset) => reset());
+    this.setState({ suspended: false, failure: null, timedOut: false });
+  }
+
+  componentWillReceiveProps(nextProps: SuspenseProps) {
+    if (keysChanged(this.props.resetKeys, nextProps.resetKeys)) this._reset();
+  }
+
+  componentDidMount() {
+    this._mounted = true;
+    this._dropStaleDom();
+    if (this._pendingCount === 0) this._hydrating = false;
+    mountedBoundaries.add(this);
+    this._notifyList();
+  }
+
+  componentWillUpdate(_nextProps: SuspenseProps, nextState: SuspenseState) {
+    // Show preserved children again before they are re-rendered, unless
+    // an error or timeout replaced them. Their effects wait for the commit.
+    if (this._hiddenContent && (!nextState.suspended || nextState.failure || nextState.timedOut)) {
+      if (!nextState.failure && !nextState.timedOut) {
+        this._hiddenContent._show();
+        this._shownContent = this._hiddenContent;
+      }
+      this._hiddenContent = undefined;
+    }
+  }
+
+  componentDidUpdate() {
+    if (this._pendingCount === 0) this._finishProbe();
+    this._dropStaleDom();
+    if (this._pendingCount === 0) this._hydrating = false;
+
+    if (this._shownContent) {
+      this._shownContent._runEffects();
+      this._shownContent = undefined;
+    }
+
+    const { suspended, failure, timedOut } = this.state;
+    if (suspended && !failure && !timedOut && this.props.preserveChildren && !this._hiddenContent) {
+      // The status provider renders the content first.
+      const vnode = (this as InternalComponent).__v;
+      const provider = vnode && vnode.__k && vnode.__k[0];
+      const content = provider && provider.__k && provider.__k[0];
+      if (content) this._hiddenContent = hideSubtree(content);
+    }
+  }
+
+  componentWillUnmount() {
+    clearTimeout(this._delayTimer);
+    clearTimeout(this._minDurationTimer);
+    clearTimeout(this._timeoutTimer);
+    mountedBoundaries.delete(this);
+    this._stopReveal();
+    // Let the work behind pending promises stop if nothing else waits on it.
+    this._pending.forEach((_, promise) => {
+      const cancelable = cancelables.get(promise);
+      if (cancelable) cancelable._release();
+    });
+    this._pending.clear();
+    this._notifyList();
   }
 
   render() {
-    const { children, fallback } = this.props;
-    const { suspended } = this.state;
+    if (this.props.preserveChildren) installEffectTracking();
+    return createElement(
+      SuspenseStatusContext.Provider,
+      { value: this._status },
+      this._renderContent()
+    );
+  }
+
+  private _renderContent() {
+    const { children, fallback, errorFallback, timeoutFallback } = this.props;
+    const { suspended, failure, timedOut } = this.state;
+    const hold = (this._hold = this.state.hold || this._listHold());
+
+    if (failure || timedOut) {
+      // The children are unmounted, so there is nothing left to preserve.
+      this._content = this._probe = undefined;
+      // Only timeouts fail without an `errorFallback`: pass them on to the
+      // error boundaries above.
+      if (failure && !errorFallback) throw failure.error;
+      return createElement(
+        Fragment,
+        null,
+        failure ? errorFallback!(failure.error, this._retry) : timeoutFallback
+      );
+    }
+
+    if (hold === 'hidden') {
+      this._probe = undefined;
+      return null;
+    }
 
-    if (suspended) {
-      return fallback != null
+    if (suspended || hold === 'fallback') {
+      this._probe = undefined;
+      const fallbackNode = fallback != null
         ? createElement(Fragment, null, fallback)
         : null;
+
+      // Handing Preact the previous content vnode again makes it skip
+      // re-rendering the preserved children.
+      if (suspended && this.props.preserveChildren && this._content) {
+        return createElement(Fragment, null, this._content, fallbackNode);
+      }
+
+      return fallbackNode;
+    }
+
+    // A transition renders the new children offscreen first, so whatever
+    // they suspend on can't unmount the content on screen. Handing Preact
+    // the same content vnode again makes it skip re-rendering it.
+    if (this._content && children !== this._contentChildren) {
+      if (this._probe && children === this._probeChildren) {
+        return createElement(Fragment, null, this._content, this._probe);
+      }
+      if (getCurrentTransition()) {
+        this._probe = createProbe(children);
+        this._probeChildren = children;
+        return createElement(Fragment, null, this._content, this._probe);
+      }
     }
 
-    return createElement(Fragment, null, children);
+    // Server renderers flatten a top-level Fragment and then start looking
+    // for a boundary above the one that rendered it; the inner Fragment
+    // gives them a vnode below this boundary to catch suspensions on.
+    this._probe = undefined;
+    this._contentChildren = children;
+    this._content = createElement(Fragment, null, children) as InternalVNode;
+    return createElement(Fragment, null, this._content);
   }
 }
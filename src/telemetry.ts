@@ -0,0 +1,44 @@
+import type { Component } from 'preact';
+
+export interface SuspendInfo {
+  /** The promise that was thrown. */
+  promise: Promise<unknown>;
+  /** Display name of the component that threw it. */
+  componentName: string;
+  /** How many suspensions the boundary is waiting on, this one included. */
+  pendingCount: number;
+}
+
+export interface ResolveInfo {
+  /** Time from the first suspension until every one of them settled. */
+  durationMs: number;
+  /** Display names of the components that suspended, in order. */
+  suspenders: string[];
+}
+
+export type SuspenseEvent =
+  | ({ type: 'suspend'; boundary: Component } & SuspendInfo)
+  | { type: 'fallback'; boundary: Component }
+  | ({ type: 'resolve'; boundary: Component } & ResolveInfo);
+
+const listeners = new Set<(event: SuspenseEvent) => void>();
+
+export function emitSuspenseEvent(event: SuspenseEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+/**
+ * Listen to every Suspense boundary suspending, showing its fallback and
+ * resolving. Returns a function that removes the listener.
+ *
+ * Usage:
+ *   const unsubscribe = subscribeSuspense((event) => {
+ *     if (event.type === 'resolve') analytics.track('suspense', event.durationMs);
+ *   });
+ */
+export function subscribeSuspense(listener: (event: SuspenseEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,156 @@
+import type { ComponentType } from 'preact';
+import { mountedBoundaries, type Suspender } from './inspect';
+import { lazy, type Lazy } from './lazy';
+import type { Suspense } from './suspense';
+
+export interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T | PromiseLike<T>) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface DeferredLazy<T extends ComponentType<any>> {
+  /** The lazy component to render. */
+  Component: Lazy<T>;
+  /** Finish the current load with `component` (or the one passed to `createDeferredLazy`). */
+  resolve: (component?: T) => void;
+  /** Fail the current load with `error`. */
+  reject: (error: unknown) => void;
+  /** How many times the loader has been called. */
+  readonly loads: number;
+}
+
+export interface WaitOptions {
+  /** Give up and reject after this many milliseconds. Defaults to 1000. */
+  timeout?: number;
+}
+
+/**
+ * Create a promise along with the functions that settle it.
+ *
+ * Usage:
+ *   const user = createDeferred<User>();
+ *   render(<Suspense fallback="..."><Profile promise={user.promise} /></Suspense>);
+ *   user.resolve({ name: 'Jane' });
+ *   await flushSuspense();
+ */
+export function createDeferred<T = void>(): Deferred<T> {
+  let resolve!: Deferred<T>['resolve'];
+  let reject!: Deferred<T>['reject'];
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * Create a `lazy()` component whose load is settled by hand.
+ *
+ * Usage:
+ *   const { Component, resolve } = createDeferredLazy(Profile);
+ *   render(<Suspense fallback="..."><Component /></Suspense>);
+ *   resolve();
+ *   await flushSuspense();
+ *
+ * `resolve()` and `reject()` settle the current load, even before
+ * anything renders the component. Once a load has failed, they settle
+ * the next one, which a Suspense `retry()` starts.
+ */
+export function createDeferredLazy<T extends ComponentType<any>>(component?: T): DeferredLazy<T> {
+  let current = createDeferred<T>();
+  let failed = false;
+  let loads = 0;
+
+  const next = () => {
+    if (failed) {
+      failed = false;
+      current = createDeferred<T>();
+    }
+    return current;
+  };
+
+  const Component = lazy<T>(() => {
+    loads++;
+    return next().promise.then((c) => ({ default: c }));
+  });
+
+  return {
+    Component,
+    resolve(c = component) {
+      if (!c) throw new Error('createDeferredLazy(): pass the component to resolve with');
+      next().resolve(c);
+    },
+    reject(error) {
+      next().reject(error);
+      failed = true;
+    },
+    get loads() {
+      return loads;
+    },
+  };
+}
+
+function isSettled(boundary: Suspense) {
+  return boundary._getSuspenders().length === 0 && !boundary.state.suspended;
+}
+
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+async function settle(filter: (boundary: Suspense) => boolean, { timeout = 1000 }: WaitOptions, caller: string) {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    // Let settled promises run their callbacks and Preact flush the renders they queued.
+    await tick();
+
+    const waiting = Array.from(mountedBoundaries).filter((b) => filter(b) && !isSettled(b));
+    if (!waiting.length) return;
+    const suspenders = waiting.reduce<Suspender[]>((all, b) => all.concat(b._getSuspenders()), []);
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      const names = suspenders.map((s) => s.componentName).join(', ');
+      throw new Error(
+        `${caller}: ${waiting.length} Suspense boundaries still pending after ${timeout}ms` +
+          (names ? ` (waiting on ${names})` : '')
+      );
+    }
+
+    const noop = () => {};
+    await Promise.race(
+      suspenders
+        .map((s) => s.promise.then(noop, noop))
+        .concat(new Promise<void>((resolve) => setTimeout(resolve, Math.min(remaining, 10))))
+    );
+  }
+}
+
+/**
+ * Wait until every mounted Suspense boundary has stopped waiting on its
+ * children and shows them, including the re-renders that follow.
+ *
+ * Usage:
+ *   deferred.resolve(data);
+ *   await flushSuspense();
+ *   expect(container.textContent).toBe('Loaded');
+ *
+ * Rejects if some boundary is still pending after `timeout`.
+ */
+export function flushSuspense(options: WaitOptions = {}): Promise<void> {
+  return settle(() => true, options, 'flushSuspense()');
+}
+
+/**
+ * Like `flushSuspense()`, but only waits on the boundaries rendered
+ * inside `container`.
+ *
+ * Usage:
+ *   const { container } = render(<App />);
+ *   await waitForSuspense(container);
+ */
+export function waitForSuspense(container: Node, options: WaitOptions = {}): Promise<void> {
+  return settle((b) => {
+    const parentDom = (b as any).__P as Node | null;
+    return !!parentDom && container.contains(parentDom);
+  }, options, 'waitForSuspense()');
+}
@@ -0,0 +1,41 @@
+import { preloadLazyChunks } from './lazy';
+import { restoreResourceEntries, type ResourceEntries } from './resource';
+
+/** What a server render transfers to the client for hydration. */
+export interface SuspenseData {
+  /** Resolved `[key, value]` pairs, per resource id. */
+  resources: ResourceEntries;
+  /** The ids of the `lazy()` components that were rendered. */
+  chunks: string[];
+}
+
+/** The id of the script element `serializeSuspenseData()` renders by default. */
+export const SUSPENSE_DATA_ID = '__PREACT_SUSPENSE_DATA__';
+
+/**
+ * Restore the data a server render transferred, before calling
+ * `hydrate()`: resources created with an `id` get the values the server
+ * read, and the `lazy()` components it rendered are preloaded. Reading
+ * them during hydration then doesn't suspend.
+ *
+ * Usage:
+ *   await restoreSuspenseData();
+ *   hydrate(<App />, document.getElementById('root'));
+ *
+ * Pass the id of the script element written by `serializeSuspenseData()`
+ * if it isn't the default one, or the data itself. Resolves right away
+ * when there is no such element.
+ */
+export function restoreSuspenseData(source: SuspenseData | string = SUSPENSE_DATA_ID): Promise<void> {
+  let data: SuspenseData;
+  if (typeof source === 'string') {
+    const script = typeof document !== 'undefined' ? document.getElementById(source) : null;
+    if (!script || !script.textContent) return Promise.resolve();
+    data = JSON.parse(script.textContent);
+  } else {
+    data = source;
+  }
+
+  if (data.resources) restoreResourceEntries(data.resources);
+  return preloadLazyChunks(data.chunks || []);
+}
@@ -0,0 +1,84 @@
+import { options } from 'preact';
+import { useCallback, useState } from 'preact/hooks';
+
+export interface Transition {
+  /** Suspensions started by this transition that have not settled yet. */
+  _pending: number;
+  /** Whether the renders queued by this transition have been flushed. */
+  _flushed: boolean;
+  _onSettled?: () => void;
+}
+
+let current: Transition | null = null;
+
+/**
+ * The transition whose updates are being rendered right now, if any.
+ * Suspense boundaries use it to keep showing their current children
+ * instead of swapping to the fallback.
+ */
+export function getCurrentTransition(): Transition | null {
+  return current;
+}
+
+/** Count a promise thrown while rendering `transition` towards its pending state. */
+export function trackTransition(transition: Transition, promise: Promise<any>) {
+  transition._pending++;
+  const onSettled = () => {
+    if (--transition._pending === 0 && transition._flushed) settle(transition);
+  };
+  promise.then(onSettled, onSettled);
+}
+
+function settle(transition: Transition) {
+  if (transition._onSettled) transition._onSettled();
+}
+
+function runTransition(fn: () => void, onSettled?: () => void) {
+  const transition: Transition = { _pending: 0, _flushed: false, _onSettled: onSettled };
+  current = transition;
+
+  // State updates made by `fn` render on Preact's next flush, so keep the
+  // transition active until then by queueing on the same scheduler.
+  const defer = options.debounceRendering || ((cb: () => void) => Promise.resolve().then(cb));
+  try {
+    fn();
+  } finally {
+    defer(() => {
+      if (current === transition) current = null;
+      transition._flushed = true;
+      if (transition._pending === 0) settle(transition);
+    });
+  }
+}
+
+/**
+ * Run `fn` and render the updates it makes as a transition: when they
+ * cause an already visible Suspense boundary to suspend, the boundary
+ * keeps showing its current children until the new tree is ready,
+ * instead of switching to its fallback.
+ *
+ * Usage:
+ *   startTransition(() => setPage('settings'));
+ */
+export function startTransition(fn: () => void) {
+  runTransition(fn);
+}
+
+/**
+ * Like `startTransition`, but also reports whether the transition is
+ * still waiting for suspended children.
+ *
+ * Usage:
+ *   const [isPending, startTransition] = useTransition();
+ *   <div style={{ opacity: isPending ? 0.5 : 1 }}>...</div>
+ */
+export function useTransition(): [boolean, (fn: () => void) => void] {
+  const [isPending, setPending] = useState(false);
+
+  const start = useCallback((fn: () => void) => {
+    setPending(true);
+    runTransition(fn, () => setPending(false));
+  }, []);
+
+  return [isPending, start];
+}
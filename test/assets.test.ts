@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement } from 'preact';
+import { Suspense } from '../src/suspense';
+import { preloadImage, SuspenseImage, useFont, useStylesheet } from '../src/assets';
+import { deferred, flush } from './helpers';
+
+function renderWithFallback(children: any) {
+  return render(
+    createElement(Suspense, {
+      fallback: createElement('div', { 'data-testid': 'asset-fb' }, 'Loading...')
+    }, children)
+  );
+}
+
+describe('asset loading', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('<SuspenseImage> suspends until the image is decoded', async () => {
+    const decoded = deferred();
+    vi.spyOn(HTMLImageElement.prototype, 'decode').mockImplementation(() => decoded.promise);
+
+    const screen = renderWithFallback(
+      createElement(SuspenseImage, { src: '/decoded.png', alt: 'Decoded', 'data-testid': 'image' })
+    );
+
+    await flush();
+    expect(screen.getByTestId('asset-fb').query()).toBeInTheDocument();
+    expect(screen.getByTestId('image').query()).toBeNull();
+
+    decoded.resolve();
+    await expect.element(screen.getByTestId('image')).toHaveAttribute('alt', 'Decoded');
+    expect(screen.getByTestId('image').query()!.getAttribute('src')).toBe('/decoded.png');
+  });
+
+  it('preloadImage() lets a <SuspenseImage> render without suspending', async () => {
+    const decode = vi.spyOn(HTMLImageElement.prototype, 'decode').mockImplementation(() => Promise.resolve());
+
+    await preloadImage('/preloaded.png');
+    const screen = renderWithFallback(createElement(SuspenseImage, { src: '/preloaded.png', 'data-testid': 'image' }));
+
+    expect(screen.getByTestId('image').query()).toBeInTheDocument();
+    expect(screen.getByTestId('asset-fb').query()).toBeNull();
+    expect(decode).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting on an asset after its timeout', async () => {
+    vi.spyOn(HTMLImageElement.prototype, 'decode').mockImplementation(() => new Promise(() => {}));
+
+    const screen = renderWithFallback(
+      createElement(SuspenseImage, { src: '/never.png', timeoutMs: 50, 'data-testid': 'image' })
+    );
+
+    await flush();
+    expect(screen.getByTestId('asset-fb').query()).toBeInTheDocument();
+    await expect.element(screen.getByTestId('image')).toBeInTheDocument();
+  });
+
+  it('does not keep the fallback when an image fails to load', async () => {
+    vi.spyOn(HTMLImageElement.prototype, 'decode').mockImplementation(() => Promise.reject(new Error('Broken')));
+
+    const screen = renderWithFallback(createElement(SuspenseImage, { src: '/broken.png', 'data-testid': 'image' }));
+
+    await expect.element(screen.getByTestId('image')).toBeInTheDocument();
+  });
+
+  it('useStylesheet() links the stylesheet once and suspends until it loads', async () => {
+    const href = 'data:text/css,.styled{color:red}';
+
+    function Styled({ id }: { id: string }) {
+      useStylesheet(href);
+      return createElement('div', { 'data-testid': id }, 'Styled');
+    }
+
+    const screen = renderWithFallback([
+      createElement(Styled, { id: 'first' }),
+      createElement(Styled, { id: 'second' }),
+    ]);
+
+    const links = document.head.querySelectorAll(`link[rel="stylesheet"][href="${href}"]`);
+    expect(links).toHaveLength(1);
+    expect(screen.getByTestId('first').query()).toBeNull();
+
+    links[0].dispatchEvent(new Event('load'));
+    await expect.element(screen.getByTestId('first')).toBeInTheDocument();
+    expect(screen.getByTestId('second').query()).toBeInTheDocument();
+    links[0].remove();
+  });
+
+  it('useFont() suspends until the font face has loaded', async () => {
+    const loaded = deferred();
+    const FakeFontFace = vi.fn(function (this: any) {
+      this.load = () => loaded.promise;
+    });
+    vi.stubGlobal('FontFace', FakeFontFace);
+
+    function Title() {
+      useFont('Test Sans', '/fonts/test-sans.woff2', { descriptors: { weight: '700' } });
+      return createElement('h1', { 'data-testid': 'title' }, 'Title');
+    }
+
+    const screen = renderWithFallback(createElement(Title, null));
+
+    await flush();
+    expect(screen.getByTestId('asset-fb').query()).toBeInTheDocument();
+    expect(FakeFontFace).toHaveBeenCalledWith('Test Sans', 'url("/fonts/test-sans.woff2")', { weight: '700' });
+
+    loaded.resolve();
+    await expect.element(screen.getByTestId('title')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement, render as preactRender } from 'preact';
+import { Suspense } from '../src/suspense';
+import { lazy } from '../src/lazy';
+import { configureSuspenseDebug } from '../src/debug';
+import { deferred, flush } from './helpers';
+
+describe('preact-suspense/debug', () => {
+  afterEach(() => {
+    configureSuspenseDebug({ slowSuspenseMs: 10000 });
+    vi.restoreAllMocks();
+  });
+
+  it('names the component and its owners when there is no boundary', () => {
+    const d = deferred();
+
+    function Profile(): any {
+      throw d.promise;
+    }
+    function Page() {
+      return createElement('main', null, createElement(Profile, null));
+    }
+
+    const container = document.createElement('div');
+    let error: any;
+    try {
+      preactRender(createElement(Page, null), container);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toContain('<Profile> suspended, but there is no <Suspense> boundary');
+    expect(error.message).toContain('  in Profile\n  in Page');
+  });
+
+  it('warns about suspensions that do not settle in time', async () => {
+    configureSuspenseDebug({ slowSuspenseMs: 20 });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const slow = deferred();
+    const fast = deferred();
+
+    function Slow(): any {
+      throw slow.promise;
+    }
+    let fastResolved = false;
+    fast.promise.then(() => {
+      fastResolved = true;
+    });
+
+    function Fast(): any {
+      if (!fastResolved) throw fast.promise;
+      return 'Fast';
+    }
+
+    render(createElement(Suspense, { fallback: 'Loading...' }, createElement(Slow, null)));
+    render(createElement(Suspense, { fallback: 'Loading...' }, createElement(Fast, null)));
+    fast.resolve();
+
+    await flush(50);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('<Slow> has been suspended for over 20ms');
+  });
+
+  it('flags lazy() loaders that resolve to something other than a component', async () => {
+    const NotAComponent = lazy(() => Promise.resolve({ default: { render: () => null } } as any));
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: 'Loading...',
+        errorFallback: (error: any) => createElement('div', { 'data-testid': 'not-component' }, error.message)
+      }, createElement(NotAComponent, null))
+    );
+
+    await expect.element(screen.getByTestId('not-component')).toHaveTextContent(
+      'lazy(): the loader resolved to an object with keys render, which is not a component.'
+    );
+  });
+});
@@ -0,0 +1,24 @@
+import { createElement } from 'preact';
+
+export { createDeferred as deferred } from '../src/testing';
+
+/** Flush microtasks + a small wait for Preact re-renders */
+export async function flush(ms = 10) {
+  await new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * A component that suspends until `deferred` resolves, then renders `text`
+ * in a div with the `testId` test id.
+ */
+export function createSuspendingComponent(deferred: { promise: Promise<any>; resolve: Function }) {
+  let resolved = false;
+  deferred.promise.then(() => {
+    resolved = true;
+  });
+
+  return function Suspending({ text, testId = 'resolved' }: { text?: string; testId?: string }) {
+    if (!resolved) throw deferred.promise;
+    return createElement('div', { 'data-testid': testId }, text ?? 'Loaded');
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement } from 'preact';
+import { Suspense } from '../src/suspense';
+import { inspectSuspense } from '../src/inspect';
+import { deferred, flush } from './helpers';
+
+function createSuspender(name: string, promise: Promise<void>) {
+  let resolved = false;
+  promise.then(() => {
+    resolved = true;
+  });
+
+  const Suspending = () => {
+    if (!resolved) throw promise;
+    return createElement('div', { 'data-testid': name }, name);
+  };
+  Suspending.displayName = name;
+  return Suspending;
+}
+
+describe('inspectSuspense', () => {
+  it('lists boundaries as a tree with what each one waits on', async () => {
+    const user = deferred();
+    const feed = deferred();
+    const User = createSuspender('User', user.promise);
+    const Avatar = createSuspender('Avatar', user.promise);
+    const Feed = createSuspender('Feed', feed.promise);
+
+    const before = Date.now();
+    const screen = render(
+      createElement(Suspense, { fallback: 'Loading page...' },
+        createElement(User, null),
+        createElement(Avatar, null),
+        createElement('section', null,
+          createElement(Suspense, { fallback: 'Loading feed...' }, createElement(Feed, null))
+        )
+      )
+    );
+    await flush();
+
+    const [outer, ...others] = inspectSuspense();
+    expect(others).toHaveLength(0);
+    expect(outer.showingFallback).toBe(true);
+    // The promise thrown by both User and Avatar is only listed once.
+    expect(outer.pending).toHaveLength(1);
+    expect(outer.pending[0].promise).toBe(user.promise);
+    expect(outer.pending[0].componentName).toBe('User');
+    expect(outer.pending[0].startedAt).toBeGreaterThanOrEqual(before);
+    // The inner boundary only mounts once the outer one shows its children.
+    expect(outer.children).toHaveLength(0);
+
+    user.resolve();
+    await expect.element(screen.getByTestId('User')).toBeInTheDocument();
+
+    const [resolvedOuter] = inspectSuspense();
+    expect(resolvedOuter.showingFallback).toBe(false);
+    expect(resolvedOuter.pending).toHaveLength(0);
+    expect(resolvedOuter.children).toHaveLength(1);
+    expect(resolvedOuter.children[0].pending.map((s) => s.componentName)).toEqual(['Feed']);
+
+    feed.resolve();
+    await expect.element(screen.getByTestId('Feed')).toBeInTheDocument();
+    expect(inspectSuspense()[0].children[0].pending).toHaveLength(0);
+  });
+
+  it('forgets boundaries once they unmount', async () => {
+    const screen = render(createElement(Suspense, { fallback: 'Loading...' }, 'Ready'));
+    await flush();
+    expect(inspectSuspense()).toHaveLength(1);
+
+    screen.unmount();
+    expect(inspectSuspense()).toHaveLength(0);
+  });
+});
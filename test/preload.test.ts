@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement } from 'preact';
+import { useRef } from 'preact/hooks';
+import { Suspense } from '../src/suspense';
+import { lazy } from '../src/lazy';
+import { preloadOnIdle, usePreloadOnIntent, usePreloadOnVisible } from '../src/preload';
+import { flush } from './helpers';
+
+function createLazy(id: string) {
+  const load = vi.fn(() =>
+    Promise.resolve({
+      default: () => createElement('div', { 'data-testid': id }, `Loaded ${id}`)
+    })
+  );
+  return { load, LazyComp: lazy(load) };
+}
+
+describe('preloading helpers', () => {
+  it('usePreloadOnVisible() preloads once the element is visible', async () => {
+    const { load, LazyComp } = createLazy('visible');
+
+    function App() {
+      const ref = useRef<HTMLDivElement>(null);
+      usePreloadOnVisible(ref, LazyComp);
+      return createElement('div', { ref, 'data-testid': 'visible-target' }, 'Target');
+    }
+
+    render(createElement(App, null));
+    await expect.poll(() => load.mock.calls.length).toBe(1);
+  });
+
+  it('usePreloadOnIntent() preloads after hovering for the delay', async () => {
+    const { load, LazyComp } = createLazy('intent');
+
+    function App() {
+      const ref = useRef<HTMLButtonElement>(null);
+      usePreloadOnIntent(ref, LazyComp, 20);
+      return createElement('button', { ref, 'data-testid': 'intent-target' }, 'Open');
+    }
+
+    const screen = render(createElement(App, null));
+    await flush();
+    const button = screen.getByTestId('intent-target').element();
+
+    button.dispatchEvent(new Event('pointerenter'));
+    button.dispatchEvent(new Event('pointerleave'));
+    await flush(40);
+    expect(load).not.toHaveBeenCalled();
+
+    button.dispatchEvent(new Event('pointerenter'));
+    await flush(40);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('usePreloadOnIntent() preloads immediately on touch', async () => {
+    const { load, LazyComp } = createLazy('touch');
+
+    function App() {
+      const ref = useRef<HTMLButtonElement>(null);
+      usePreloadOnIntent(ref, LazyComp, 1000);
+      return createElement('button', { ref, 'data-testid': 'touch-target' }, 'Open');
+    }
+
+    const screen = render(createElement(App, null));
+    await flush();
+    screen.getByTestId('touch-target').element().dispatchEvent(new Event('touchstart'));
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('preloadOnIdle() preloads every component', async () => {
+    const a = createLazy('idle-a');
+    const b = createLazy('idle-b');
+
+    preloadOnIdle([a.LazyComp, b.LazyComp]);
+    await expect.poll(() => a.load.mock.calls.length + b.load.mock.calls.length).toBe(2);
+  });
+
+  it('preloadOnIdle() can be cancelled', async () => {
+    const { load, LazyComp } = createLazy('idle-cancelled');
+
+    const cancel = preloadOnIdle([LazyComp]);
+    cancel();
+    await flush(50);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('shares the preloaded promise with rendering', async () => {
+    const { load, LazyComp } = createLazy('idle-shared');
+
+    preloadOnIdle([LazyComp]);
+    await expect.poll(() => load.mock.calls.length).toBe(1);
+
+    const screen = render(
+      createElement(Suspense, { fallback: 'Loading...' }, createElement(LazyComp, null))
+    );
+    await expect.element(screen.getByTestId('idle-shared')).toBeInTheDocument();
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
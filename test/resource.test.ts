@@ -0,0 +1,244 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement, hydrate, render as preactRender } from 'preact';
+import { Suspense } from '../src/suspense';
+import { createResource, use } from '../src/resource';
+import { restoreSuspenseData } from '../src/transfer';
+import { deferred, flush } from './helpers';
+
+describe('use', () => {
+  it('suspends until the promise resolves and returns its value', async () => {
+    const d = deferred<string>();
+
+    function Greeting() {
+      return createElement('div', { 'data-testid': 'greeting' }, use(d.promise));
+    }
+
+    const screen = render(
+      createElement(Suspense, { fallback: createElement('div', { 'data-testid': 'use-fb' }, 'Loading...') },
+        createElement(Greeting, null)
+      )
+    );
+
+    await expect.element(screen.getByTestId('use-fb')).toBeVisible();
+
+    d.resolve('Hello');
+    await flush();
+
+    await expect.element(screen.getByTestId('greeting')).toHaveTextContent('Hello');
+  });
+
+  it('throws a rejection as an error', async () => {
+    const d = deferred<string>();
+
+    function Greeting() {
+      return createElement('div', null, use(d.promise));
+    }
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: createElement('div', null, 'Loading...'),
+        errorFallback: (error: any) => createElement('div', { 'data-testid': 'use-err' }, error.message)
+      },
+        createElement(Greeting, null)
+      )
+    );
+
+    d.reject(new Error('Nope'));
+    await flush();
+
+    await expect.element(screen.getByTestId('use-err')).toHaveTextContent('Nope');
+  });
+});
+
+describe('createResource', () => {
+  it('caches values by key', async () => {
+    const fetcher = vi.fn((id: number) => Promise.resolve(`User ${id}`));
+    const users = createResource(fetcher);
+
+    function User({ id }: { id: number }) {
+      return createElement('div', { 'data-testid': `user-${id}` }, users.read(id));
+    }
+
+    const screen = render(
+      createElement(Suspense, { fallback: createElement('div', null, 'Loading...') },
+        createElement(User, { id: 1 }),
+        createElement(User, { id: 1 }),
+        createElement(User, { id: 2 })
+      )
+    );
+
+    await expect.element(screen.getByTestId('user-2')).toHaveTextContent('User 2');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares the pending fetch with preload()', async () => {
+    const fetcher = vi.fn((id: number) => Promise.resolve(id * 2));
+    const doubled = createResource(fetcher);
+
+    expect(await doubled.preload(21)).toBe(42);
+
+    function Value() {
+      return createElement('div', { 'data-testid': 'value' }, doubled.read(21));
+    }
+
+    const screen = render(
+      createElement(Suspense, { fallback: createElement('div', null, 'Loading...') },
+        createElement(Value, null)
+      )
+    );
+
+    await expect.element(screen.getByTestId('value')).toHaveTextContent('42');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('invalidate() makes readers suspend and fetch again', async () => {
+    let version = 0;
+    let pending = deferred<number>();
+    const resource = createResource(() => {
+      version++;
+      return pending.promise;
+    });
+
+    function Version() {
+      return createElement('div', { 'data-testid': 'version' }, `v${resource.read('key')}`);
+    }
+
+    const screen = render(
+      createElement(Suspense, { fallback: createElement('div', { 'data-testid': 'inv-fb' }, 'Loading...') },
+        createElement(Version, null)
+      )
+    );
+
+    pending.resolve(1);
+    await expect.element(screen.getByTestId('version')).toHaveTextContent('v1');
+
+    pending = deferred<number>();
+    resource.invalidate('key');
+    await flush();
+
+    await expect.element(screen.getByTestId('inv-fb')).toBeVisible();
+    expect(version).toBe(2);
+
+    pending.resolve(2);
+    await expect.element(screen.getByTestId('version')).toHaveTextContent('v2');
+  });
+
+  it('refresh() keeps the cached value on screen until the new one arrives', async () => {
+    let pending = deferred<string>();
+    const resource = createResource(() => pending.promise);
+
+    function Status() {
+      return createElement('div', { 'data-testid': 'status' }, resource.read('status'));
+    }
+
+    const screen = render(
+      createElement(Suspense, { fallback: createElement('div', { 'data-testid': 'ref-fb' }, 'Loading...') },
+        createElement(Status, null)
+      )
+    );
+
+    pending.resolve('old');
+    await expect.element(screen.getByTestId('status')).toHaveTextContent('old');
+
+    pending = deferred<string>();
+    const refreshed = resource.refresh('status');
+    await flush();
+
+    await expect.element(screen.getByTestId('status')).toHaveTextContent('old');
+    expect(screen.container.querySelector('[data-testid="ref-fb"]')).toBeNull();
+
+    pending.resolve('new');
+    await refreshed;
+    await flush();
+
+    await expect.element(screen.getByTestId('status')).toHaveTextContent('new');
+  });
+
+  it('retry() from errorFallback fetches a failed key again', async () => {
+    let attempts = 0;
+    const resource = createResource((key: string) => {
+      attempts++;
+      return attempts === 1 ? Promise.reject(new Error('Offline')) : Promise.resolve(key.toUpperCase());
+    });
+
+    function Shout() {
+      return createElement('div', { 'data-testid': 'shout' }, resource.read('hi'));
+    }
+
+    let retry!: () => void;
+    const screen = render(
+      createElement(Suspense, {
+        fallback: createElement('div', null, 'Loading...'),
+        errorFallback: (error: any, r: () => void) => {
+          retry = r;
+          return createElement('div', { 'data-testid': 'res-err' }, error.message);
+        }
+      },
+        createElement(Shout, null)
+      )
+    );
+
+    await expect.element(screen.getByTestId('res-err')).toHaveTextContent('Offline');
+
+    retry();
+    await flush();
+
+    await expect.element(screen.getByTestId('shout')).toHaveTextContent('HI');
+    expect(attempts).toBe(2);
+  });
+});
+
+describe('restoreSuspenseData', () => {
+  it('hydrates with transferred values instead of fetching them again', async () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    container.innerHTML = '<h1 data-testid="transferred">Jane</h1>';
+    const heading = container.firstChild;
+
+    const script = document.createElement('script');
+    script.type = 'application/json';
+    script.id = 'transfer-test-data';
+    script.textContent = JSON.stringify({ resources: { 'transfer-users': [[1, { name: 'Jane' }]] }, chunks: [] });
+    document.body.appendChild(script);
+
+    await restoreSuspenseData('transfer-test-data');
+    // Resources created after the data was restored pick it up too.
+    const fetcher = vi.fn((id: number) => Promise.resolve({ name: `Fetched ${id}` }));
+    const users = createResource(fetcher, { id: 'transfer-users' });
+
+    function Profile() {
+      return createElement('h1', { 'data-testid': 'transferred' }, users.read(1).name);
+    }
+
+    const onSuspend = vi.fn();
+    hydrate(createElement(Suspense, { fallback: 'Loading...', onSuspend }, createElement(Profile, null)), container);
+
+    expect(container.firstChild).toBe(heading);
+    expect(container.textContent).toBe('Jane');
+    expect(onSuspend).not.toHaveBeenCalled();
+    expect(fetcher).not.toHaveBeenCalled();
+
+    // Keys that weren't transferred are fetched as usual.
+    await expect(users.preload(2)).resolves.toEqual({ name: 'Fetched 2' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    preactRender(null, container);
+    container.remove();
+    script.remove();
+  });
+
+  it('fills resources that already exist and keeps values they already have', async () => {
+    const posts = createResource((id: number) => Promise.resolve(`Fetched ${id}`), { id: 'transfer-posts' });
+    await posts.preload(1);
+
+    await restoreSuspenseData({ resources: { 'transfer-posts': [[1, 'Stale'], [2, 'Transferred']] }, chunks: [] });
+
+    expect(await posts.preload(1)).toBe('Fetched 1');
+    expect(await posts.preload(2)).toBe('Transferred');
+  });
+
+  it('resolves right away when the page has no data', async () => {
+    await expect(restoreSuspenseData()).resolves.toBeUndefined();
+  });
+});
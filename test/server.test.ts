@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'preact';
+import { Suspense } from '../src/suspense';
+import { lazy } from '../src/lazy';
+import { renderToStringAsync } from 'preact-render-to-string';
+import { createResource } from '../src/resource';
+import { collectLazyChunks, collectSuspenseData, renderToReadableStream, serializeSuspenseData } from '../src/server';
+import { deferred } from './helpers';
+
+/** Read chunks from the stream as they are written */
+function collect(stream: ReadableStream<Uint8Array>) {
+  const chunks: string[] = [];
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  const done = (async () => {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return chunks.join('');
+      chunks.push(decoder.decode(value));
+    }
+  })();
+  return { chunks, done };
+}
+
+describe('renderToReadableStream', () => {
+  it('streams the shell with fallbacks before suspended boundaries resolve', async () => {
+    const d = deferred<{ default: any }>();
+    const Profile = lazy(() => d.promise);
+
+    const stream = renderToReadableStream(
+      createElement('main', null,
+        createElement('h1', null, 'Title'),
+        createElement(Suspense, { fallback: createElement('p', null, 'Loading profile...') },
+          createElement(Profile, null)
+        ),
+        createElement('footer', null, 'Footer')
+      )
+    );
+    const { chunks, done } = collect(stream);
+
+    await new Promise((r) => setTimeout(r, 10));
+    const shell = chunks.join('');
+    expect(shell).toContain('<h1>Title</h1>');
+    expect(shell).toContain('<footer>Footer</footer>');
+    expect(shell).toMatch(/<!--\$s:[^>]+--><p>Loading profile...<\/p><!--\/\$s:[^>]+-->/);
+    expect(shell).not.toContain('Jane');
+
+    d.resolve({ default: () => createElement('p', null, 'Jane') });
+    const html = await done;
+    await stream.allReady;
+
+    expect(html).toMatch(/<preact-island hidden data-target="[^"]+"><p>Jane<\/p><\/preact-island>/);
+    expect(html).toContain('<script>');
+  });
+
+  it('renders everything inline when nothing suspends', async () => {
+    const stream = renderToReadableStream(
+      createElement(Suspense, { fallback: 'Loading...' },
+        createElement('p', null, 'Ready')
+      )
+    );
+
+    expect(await collect(stream).done).toBe('<p>Ready</p>');
+  });
+
+  it('adds the nonce to the inline script', async () => {
+    const Later = lazy(() => Promise.resolve({ default: () => createElement('span', null, 'later') }));
+
+    const stream = renderToReadableStream(
+      createElement(Suspense, { fallback: 'Loading...' }, createElement(Later, null)),
+      { nonce: 'abc123' }
+    );
+
+    expect(await collect(stream).done).toContain('<script nonce="abc123">');
+  });
+});
+
+describe('collectLazyChunks', () => {
+  it('records the ids of rendered lazy components', async () => {
+    const Header = lazy(() => Promise.resolve({ default: () => createElement('h1', null, 'Header') }), { id: './Header' });
+    const Footer = lazy(() => Promise.resolve({ default: () => createElement('footer', null, 'Footer') }), { id: './Footer' });
+    const Unnamed = lazy(() => Promise.resolve({ default: () => createElement('p', null, 'Body') }));
+    // Never rendered.
+    lazy(() => Promise.resolve({ default: () => null }), { id: './Sidebar' });
+
+    const { result, chunks } = await collectLazyChunks(() =>
+      renderToStringAsync(
+        createElement(Suspense, { fallback: 'Loading...' },
+          createElement(Header, null),
+          createElement(Unnamed, null),
+          createElement(Footer, null)
+        )
+      )
+    );
+
+    expect(result).toContain('<h1>Header</h1>');
+    expect(result).toContain('<footer>Footer</footer>');
+    expect(chunks.sort()).toEqual(['./Footer', './Header']);
+  });
+
+  it('works with synchronous renders', async () => {
+    const Loaded = lazy(() => Promise.resolve({ default: () => createElement('p', null, 'Loaded') }), { id: './Loaded' });
+    await Loaded.preload();
+
+    const { result, chunks } = collectLazyChunks(() =>
+      renderToReadableStream(createElement(Loaded, null))
+    );
+
+    expect(await collect(result).done).toBe('<p>Loaded</p>');
+    expect(chunks).toEqual(['./Loaded']);
+  });
+});
+
+describe('collectSuspenseData', () => {
+  it('records resolved resource values and rendered lazy components', async () => {
+    const users = createResource((id: number) => Promise.resolve({ id, name: `User ${id}` }), { id: 'server-users' });
+    const broken = createResource((id: number) => Promise.reject(new Error(`No post ${id}`)), { id: 'server-posts' });
+    const untracked = createResource((id: number) => Promise.resolve(id));
+    const Header = lazy(() => Promise.resolve({ default: () => createElement('h1', null, 'Header') }), { id: './DataHeader' });
+
+    function User({ id }: { id: number }) {
+      untracked.read(id);
+      // Failed fetches aren't transferred; the client tries again.
+      try {
+        broken.read(id);
+      } catch {}
+      return createElement('p', null, users.read(id).name);
+    }
+
+    await broken.preload(1).catch(() => {});
+    await broken.preload(2).catch(() => {});
+    const { result, data } = await collectSuspenseData(() =>
+      renderToStringAsync(
+        createElement(Suspense, { fallback: 'Loading...' },
+          createElement(Header, null),
+          createElement(User, { id: 1 }),
+          createElement(User, { id: 2 })
+        )
+      )
+    );
+
+    expect(result).toContain('User 2');
+    expect(data).toEqual({
+      resources: {
+        'server-users': [
+          [1, { id: 1, name: 'User 1' }],
+          [2, { id: 2, name: 'User 2' }],
+        ],
+      },
+      chunks: ['./DataHeader'],
+    });
+  });
+
+  it('keeps the data of overlapping renders apart', async () => {
+    const pending = new Map<string, ReturnType<typeof deferred<string>>>();
+    const accounts = createResource((user: string) => {
+      const d = deferred<string>();
+      pending.set(user, d);
+      return d.promise;
+    }, { id: 'server-accounts' });
+
+    const panels: Record<string, any> = {
+      alice: lazy(() => Promise.resolve({ default: () => createElement('aside', null, 'Alice panel') }), { id: './AlicePanel' }),
+      bob: lazy(() => Promise.resolve({ default: () => createElement('aside', null, 'Bob panel') }), { id: './BobPanel' }),
+    };
+
+    function Account({ user }: { user: string }) {
+      return createElement('div', null, createElement('p', null, accounts.read(user)), createElement(panels[user], null));
+    }
+
+    const render = (user: string) =>
+      collectSuspenseData(() =>
+        renderToStringAsync(createElement(Suspense, { fallback: 'Loading...' }, createElement(Account, { user })))
+      );
+
+    const alice = render('alice');
+    const bob = render('bob');
+    await new Promise((r) => setTimeout(r, 0));
+    pending.get('alice')!.resolve('Alice secret');
+    pending.get('bob')!.resolve('Bob secret');
+
+    const [aliceResult, bobResult] = await Promise.all([alice, bob]);
+    expect(aliceResult.result).toContain('<p>Alice secret</p>');
+    expect(aliceResult.data.resources).toEqual({ 'server-accounts': [['alice', 'Alice secret']] });
+    expect(aliceResult.data.chunks).toEqual(['./AlicePanel']);
+    expect(bobResult.result).toContain('<p>Bob secret</p>');
+    expect(bobResult.data.resources).toEqual({ 'server-accounts': [['bob', 'Bob secret']] });
+    expect(bobResult.data.chunks).toEqual(['./BobPanel']);
+  });
+
+  it('rejects when the render only starts after an await', async () => {
+    await expect(collectSuspenseData(async () => {
+      await Promise.resolve();
+      return renderToStringAsync(createElement('p', null, 'Late'));
+    })).rejects.toThrow('collectSuspenseData(): `render` has to start the server render before it awaits anything');
+  });
+
+  it('serializes the data into a script element that cannot be closed early', () => {
+    const html = serializeSuspenseData({
+      resources: { posts: [[1, { body: '</script><script>alert(1)</script>' }]] },
+      chunks: [],
+    });
+
+    expect(html).toMatch(/^<script type="application\/json" id="__PREACT_SUSPENSE_DATA__">/);
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+    const json = html.slice(html.indexOf('>') + 1, html.lastIndexOf('</script>'));
+    expect(JSON.parse(json).resources.posts[0][1].body).toBe('</script><script>alert(1)</script>');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement } from 'preact';
+import { signal } from '@preact/signals';
+import { Suspense } from '../src/suspense';
+import { asyncComputed, useSignalSuspense } from '../src/signals';
+import { deferred, flush } from './helpers';
+
+describe('signals', () => {
+  it('asyncComputed() suspends while loading and re-renders with the value', async () => {
+    const userId = signal(1);
+    const requests = new Map<number, ReturnType<typeof deferred<string>>>();
+    const user = asyncComputed(() => {
+      const d = deferred<string>();
+      requests.set(userId.value, d);
+      return d.promise;
+    });
+
+    function Profile() {
+      return createElement('div', { 'data-testid': 'signal-user' }, user.value);
+    }
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: createElement('div', { 'data-testid': 'signal-fb' }, 'Loading...')
+      }, createElement(Profile, null))
+    );
+
+    await expect.element(screen.getByTestId('signal-fb')).toBeInTheDocument();
+    requests.get(1)!.resolve('Jane');
+    await expect.element(screen.getByTestId('signal-user')).toHaveTextContent('Jane');
+
+    // Changing a dependency loads again, and suspends until it arrives.
+    userId.value = 2;
+    await expect.element(screen.getByTestId('signal-fb')).toBeInTheDocument();
+    requests.get(2)!.resolve('John');
+    await expect.element(screen.getByTestId('signal-user')).toHaveTextContent('John');
+  });
+
+  it('asyncComputed() throws rejections as render errors', async () => {
+    const failing = asyncComputed(() => Promise.reject(new Error('Nope')));
+
+    function Reader() {
+      return createElement('div', null, failing.value as any);
+    }
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: 'Loading...',
+        errorFallback: (error: any) => createElement('div', { 'data-testid': 'signal-error' }, error.message)
+      }, createElement(Reader, null))
+    );
+
+    await expect.element(screen.getByTestId('signal-error')).toHaveTextContent('Nope');
+  });
+
+  it('ignores results of promises that were superseded', async () => {
+    const query = signal('a');
+    const requests = new Map<string, ReturnType<typeof deferred<string>>>();
+    const results = asyncComputed(() => {
+      const d = deferred<string>();
+      requests.set(query.value, d);
+      return d.promise;
+    });
+
+    function Results() {
+      return createElement('div', { 'data-testid': 'signal-results' }, results.value);
+    }
+
+    const screen = render(createElement(Suspense, { fallback: 'Loading...' }, createElement(Results, null)));
+    await flush();
+
+    query.value = 'b';
+    await flush();
+    requests.get('a')!.resolve('Results for a');
+    await flush();
+    expect(screen.getByTestId('signal-results').query()).toBeNull();
+
+    requests.get('b')!.resolve('Results for b');
+    await expect.element(screen.getByTestId('signal-results')).toHaveTextContent('Results for b');
+  });
+
+  it('useSignalSuspense() suspends on a signal holding a promise', async () => {
+    const first = deferred<string>();
+    const current = signal<Promise<string> | string>(first.promise);
+
+    function Reader() {
+      const value = useSignalSuspense(current);
+      return createElement('div', { 'data-testid': 'signal-promise' }, value);
+    }
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: createElement('div', { 'data-testid': 'signal-promise-fb' }, 'Loading...')
+      }, createElement(Reader, null))
+    );
+
+    await expect.element(screen.getByTestId('signal-promise-fb')).toBeInTheDocument();
+    first.resolve('First');
+    await expect.element(screen.getByTestId('signal-promise')).toHaveTextContent('First');
+
+    current.value = 'Plain value';
+    await expect.element(screen.getByTestId('signal-promise')).toHaveTextContent('Plain value');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement } from 'preact';
+import { Suspense } from '../src/suspense';
+import { useSuspenseStatus } from '../src/status';
+import { deferred, flush } from './helpers';
+
+function createSuspender(id: string) {
+  const d = deferred();
+  let resolved = false;
+  d.promise.then(() => {
+    resolved = true;
+  });
+
+  function Child() {
+    if (!resolved) throw d.promise;
+    return createElement('div', { 'data-testid': id }, `Loaded ${id}`);
+  }
+
+  return { d, Child };
+}
+
+function Status({ id }: { id: string }) {
+  const { pending, pendingCount, since } = useSuspenseStatus();
+  return createElement(
+    'div',
+    { 'data-testid': id },
+    `${pending ? 'pending' : 'idle'}:${pendingCount}:${since === null ? 'none' : 'set'}`
+  );
+}
+
+describe('useSuspenseStatus', () => {
+  it('reports the pending count to the fallback', async () => {
+    const a = createSuspender('status-a');
+    const b = createSuspender('status-b');
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: createElement(Status, { id: 'status-fb' })
+      }, createElement(a.Child, null), createElement(b.Child, null))
+    );
+
+    await expect.element(screen.getByTestId('status-fb')).toHaveTextContent('pending:2:set');
+
+    a.d.resolve();
+    await flush();
+    await expect.element(screen.getByTestId('status-fb')).toHaveTextContent('pending:1:set');
+
+    b.d.resolve();
+    await expect.element(screen.getByTestId('status-a')).toBeInTheDocument();
+    await expect.element(screen.getByTestId('status-b')).toBeInTheDocument();
+  });
+
+  it('updates consumers that stay mounted while the boundary is pending', async () => {
+    const a = createSuspender('status-delayed');
+
+    const screen = render(
+      createElement(Suspense, { fallback: 'Loading...', delayMs: 1000 },
+        createElement(Status, { id: 'status-sibling' }),
+        createElement(a.Child, null)
+      )
+    );
+
+    await expect.element(screen.getByTestId('status-sibling')).toHaveTextContent('pending:1:set');
+
+    a.d.resolve();
+    await expect.element(screen.getByTestId('status-delayed')).toBeInTheDocument();
+    await expect.element(screen.getByTestId('status-sibling')).toHaveTextContent('idle:0:none');
+  });
+
+  it('counts a promise thrown by several components once', async () => {
+    const d = deferred();
+    let resolved = false;
+    d.promise.then(() => {
+      resolved = true;
+    });
+
+    function Child({ id }: { id: string }) {
+      if (!resolved) throw d.promise;
+      return createElement('div', { 'data-testid': id }, 'Loaded');
+    }
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: createElement(Status, { id: 'status-shared' })
+      }, createElement(Child, { id: 'shared-a' }), createElement(Child, { id: 'shared-b' }))
+    );
+
+    await expect.element(screen.getByTestId('status-shared')).toHaveTextContent('pending:1:set');
+
+    d.resolve();
+    await expect.element(screen.getByTestId('shared-a')).toBeInTheDocument();
+    await expect.element(screen.getByTestId('shared-b')).toBeInTheDocument();
+  });
+
+  it('is never pending outside of a boundary', async () => {
+    const screen = render(createElement(Status, { id: 'status-none' }));
+    await expect.element(screen.getByTestId('status-none')).toHaveTextContent('idle:0:none');
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement } from 'preact';
+import { useLayoutEffect } from 'preact/hooks';
+import { Suspense } from '../src/suspense';
+import { SuspenseList } from '../src/suspense-list';
+import { deferred, flush, createSuspendingComponent } from './helpers';
+
+function row(name: string, child: any) {
+  return createElement(Suspense, {
+    fallback: createElement('span', { 'data-testid': `${name}-fb` }, `${name} loading`)
+  }, child);
+}
+
+describe('SuspenseList', () => {
+  it('reveals boundaries in order with revealOrder="forwards"', async () => {
+    const d1 = deferred();
+    const d2 = deferred();
+    const First = createSuspendingComponent(d1);
+    const Second = createSuspendingComponent(d2);
+
+    const screen = render(
+      createElement(SuspenseList, { revealOrder: 'forwards' },
+        row('a', createElement(First, { text: 'first', testId: 'first' })),
+        row('b', createElement(Second, { text: 'second', testId: 'second' }))
+      )
+    );
+
+    await expect.element(screen.getByTestId('a-fb')).toBeVisible();
+    await expect.element(screen.getByTestId('b-fb')).toBeVisible();
+
+    d2.resolve();
+    await flush();
+
+    expect(screen.container.querySelector('[data-testid="second"]')).toBeNull();
+    await expect.element(screen.getByTestId('b-fb')).toBeVisible();
+
+    d1.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('first')).toBeVisible();
+    await expect.element(screen.getByTestId('second')).toBeVisible();
+  });
+
+  it('holds back a ready boundary that comes after a pending one', async () => {
+    const d = deferred();
+    const First = createSuspendingComponent(d);
+
+    const screen = render(
+      createElement(SuspenseList, { revealOrder: 'forwards' },
+        row('a', createElement(First, { text: 'first', testId: 'first' })),
+        row('b', createElement('div', { 'data-testid': 'static' }, 'static'))
+      )
+    );
+
+    await expect.element(screen.getByTestId('b-fb')).toBeVisible();
+    expect(screen.container.querySelector('[data-testid="static"]')).toBeNull();
+
+    d.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('first')).toBeVisible();
+    await expect.element(screen.getByTestId('static')).toBeVisible();
+  });
+
+  async function expectHeldContentNeverMounts(revealOrder: 'forwards' | 'backwards' | 'together') {
+    const d = deferred();
+    const Pending = createSuspendingComponent(d);
+    let renders = 0;
+    let mounts = 0;
+
+    function Ready() {
+      renders++;
+      useLayoutEffect(() => {
+        mounts++;
+      }, []);
+      return createElement('div', { 'data-testid': 'ready' }, 'ready');
+    }
+
+    // The ready boundary comes after the pending one in reveal order.
+    const rows = [
+      row('a', createElement(Pending, { text: 'pending', testId: 'pending' })),
+      row('b', createElement(Ready, null))
+    ];
+    if (revealOrder === 'backwards') rows.reverse();
+
+    const screen = render(createElement(SuspenseList, { revealOrder }, ...rows));
+
+    await expect.element(screen.getByTestId('b-fb')).toBeVisible();
+    await flush();
+    expect(renders).toBe(0);
+    expect(mounts).toBe(0);
+
+    d.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('pending')).toBeVisible();
+    await expect.element(screen.getByTestId('ready')).toBeVisible();
+    expect(mounts).toBe(1);
+  }
+
+  it('never mounts content held back behind a pending boundary', async () => {
+    await expectHeldContentNeverMounts('forwards');
+  });
+
+  it('never mounts content held back with revealOrder="backwards"', async () => {
+    await expectHeldContentNeverMounts('backwards');
+  });
+
+  it('never mounts content held back with revealOrder="together"', async () => {
+    await expectHeldContentNeverMounts('together');
+  });
+
+  it('reveals boundaries in reverse with revealOrder="backwards"', async () => {
+    const d1 = deferred();
+    const d2 = deferred();
+    const First = createSuspendingComponent(d1);
+    const Second = createSuspendingComponent(d2);
+
+    const screen = render(
+      createElement(SuspenseList, { revealOrder: 'backwards' },
+        row('a', createElement(First, { text: 'first', testId: 'first' })),
+        row('b', createElement(Second, { text: 'second', testId: 'second' }))
+      )
+    );
+
+    d1.resolve();
+    await flush();
+
+    expect(screen.container.querySelector('[data-testid="first"]')).toBeNull();
+    await expect.element(screen.getByTestId('a-fb')).toBeVisible();
+
+    d2.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('first')).toBeVisible();
+    await expect.element(screen.getByTestId('second')).toBeVisible();
+  });
+
+  it('reveals all boundaries at once with revealOrder="together"', async () => {
+    const d1 = deferred();
+    const d2 = deferred();
+    const First = createSuspendingComponent(d1);
+    const Second = createSuspendingComponent(d2);
+
+    const screen = render(
+      createElement(SuspenseList, { revealOrder: 'together' },
+        row('a', createElement(First, { text: 'first', testId: 'first' })),
+        row('b', createElement(Second, { text: 'second', testId: 'second' }))
+      )
+    );
+
+    d1.resolve();
+    await flush();
+
+    expect(screen.container.querySelector('[data-testid="first"]')).toBeNull();
+    await expect.element(screen.getByTestId('a-fb')).toBeVisible();
+
+    d2.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('first')).toBeVisible();
+    await expect.element(screen.getByTestId('second')).toBeVisible();
+  });
+
+  it('only shows the next fallback with tail="collapsed"', async () => {
+    const d1 = deferred();
+    const d2 = deferred();
+    const First = createSuspendingComponent(d1);
+    const Second = createSuspendingComponent(d2);
+
+    const screen = render(
+      createElement(SuspenseList, { revealOrder: 'forwards', tail: 'collapsed' },
+        row('a', createElement(First, { text: 'first', testId: 'first' })),
+        row('b', createElement(Second, { text: 'second', testId: 'second' }))
+      )
+    );
+
+    await expect.element(screen.getByTestId('a-fb')).toBeVisible();
+    expect(screen.container.querySelector('[data-testid="b-fb"]')).toBeNull();
+
+    d1.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('first')).toBeVisible();
+    await expect.element(screen.getByTestId('b-fb')).toBeVisible();
+  });
+
+  it('shows no fallbacks with tail="hidden"', async () => {
+    const d1 = deferred();
+    const d2 = deferred();
+    const First = createSuspendingComponent(d1);
+    const Second = createSuspendingComponent(d2);
+
+    const screen = render(
+      createElement(SuspenseList, { revealOrder: 'forwards', tail: 'hidden' },
+        row('a', createElement(First, { text: 'first', testId: 'first' })),
+        row('b', createElement(Second, { text: 'second', testId: 'second' }))
+      )
+    );
+
+    await flush();
+    expect(screen.container.querySelector('[data-testid="a-fb"]')).toBeNull();
+    expect(screen.container.querySelector('[data-testid="b-fb"]')).toBeNull();
+
+    d1.resolve();
+    d2.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('first')).toBeVisible();
+    await expect.element(screen.getByTestId('second')).toBeVisible();
+  });
+
+  it('lets boundaries reveal independently without a revealOrder', async () => {
+    const d1 = deferred();
+    const d2 = deferred();
+    const First = createSuspendingComponent(d1);
+    const Second = createSuspendingComponent(d2);
+
+    const screen = render(
+      createElement(SuspenseList, null,
+        row('a', createElement(First, { text: 'first', testId: 'first' })),
+        row('b', createElement(Second, { text: 'second', testId: 'second' }))
+      )
+    );
+
+    d2.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('a-fb')).toBeVisible();
+    await expect.element(screen.getByTestId('second')).toBeVisible();
+  });
+});
@@ -1,39 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render } from 'vitest-browser-preact';
-import { createElement, options, hydrate as preactHydrate, render as preactRender } from 'preact';
-import { useEffect } from 'preact/hooks';
+import { Component, Fragment, createElement, createRef, options, hydrate as preactHydrate, render as preactRender } from 'preact';
+import { forwardRef } from 'preact/compat';
+import { useEffect, useLayoutEffect, useRef, useState } from 'preact/hooks';
 import { Suspense } from '../src/suspense';
-import { lazy } from '../src/lazy';
-
-/** Helper: create a deferred promise we can resolve/reject manually */
-function deferred<T = void>() {
-  let resolve!: (val: T | PromiseLike<T>) => void;
-  let reject!: (err: any) => void;
-  const promise = new Promise<T>((res, rej) => {
-    resolve = res;
-    reject = rej;
-  });
-  return { promise, resolve, reject };
-}
-
-/** Flush microtasks + a small wait for Preact re-renders */
-async function flush(ms = 10) {
-  await new Promise((r) => setTimeout(r, ms));
-}
-
-/** A component that throws a promise until it resolves */
-function createSuspendingComponent(deferred: { promise: Promise<any>; resolve: Function }) {
-  let resolved = false;
-  deferred.promise.then(() => {
-    resolved = true;
-  });
-
-  return function Suspending({ text }: { text?: string }) {
-    if (!resolved) throw deferred.promise;
-    return createElement('div', { 'data-testid': 'resolved' }, text ?? 'Loaded');
-  };
-}
-
+import { lazy, preloadLazyChunks } from '../src/lazy';
+import { subscribeSuspense, type SuspenseEvent } from '../src/telemetry';
+import { deferred, flush, createSuspendingComponent } from './helpers';
 
 describe('Suspense', () => {
   describe('basic rendering', () => {
@@ -144,6 +117,54 @@ describe('Suspense', () => {
       await expect.element(screen.getByTestId('bare')).toBeVisible();
     });
 
+    it('picks a named export', async () => {
+      const LazyComp = lazy(() => Promise.resolve({
+        SettingsPanel: () => createElement('div', { 'data-testid': 'named' }, 'Settings')
+      }), 'SettingsPanel');
+
+      const screen = render(
+        createElement(Suspense, { fallback: createElement('span', null, 'loading') },
+          createElement(LazyComp, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('named')).toHaveTextContent('Settings');
+    });
+
+    it('picks a component with a selector', async () => {
+      const LazyComp = lazy(() => Promise.resolve({
+        Panels: {
+          Settings: (props: { tab: string }) =>
+            createElement('div', { 'data-testid': 'selected' }, `Tab: ${props.tab}`)
+        }
+      }), (m) => m.Panels.Settings);
+
+      const screen = render(
+        createElement(Suspense, { fallback: createElement('span', null, 'loading') },
+          createElement(LazyComp, { tab: 'profile' })
+        )
+      );
+
+      await expect.element(screen.getByTestId('selected')).toHaveTextContent('Tab: profile');
+    });
+
+    it('fails with an error when the named export is missing', async () => {
+      const LazyComp = lazy(() => Promise.resolve({} as { Missing: () => null }), 'Missing');
+
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('span', null, 'loading'),
+          errorFallback: (error: any) =>
+            createElement('div', { 'data-testid': 'missing' }, error.message)
+        },
+          createElement(LazyComp, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('missing'))
+        .toHaveTextContent('lazy(): the loaded module has no export named "Missing"');
+    });
+
     it('preload() starts loading before render', async () => {
       let loadCalled = false;
       const d = deferred<{ default: any }>();
@@ -170,6 +191,73 @@ describe('Suspense', () => {
 
       await expect.element(screen.getByTestId('preloaded')).toBeVisible();
     });
+
+    it('loads class components and passes refs to their instance', async () => {
+      class Counter extends Component<{ start: number }, { count: number }> {
+        state = { count: this.props.start };
+        increment() {
+          this.setState({ count: this.state.count + 1 });
+        }
+        render() {
+          return createElement('div', { 'data-testid': 'class-lazy' }, `Count: ${this.state.count}`);
+        }
+      }
+
+      const LazyCounter = lazy(() => Promise.resolve({ default: Counter }));
+      const ref = createRef<Counter>();
+
+      const screen = render(
+        createElement(Suspense, { fallback: 'Loading...' },
+          createElement(LazyCounter, { start: 1, ref })
+        )
+      );
+
+      await expect.element(screen.getByTestId('class-lazy')).toHaveTextContent('Count: 1');
+      expect(ref.current).toBeInstanceOf(Counter);
+
+      ref.current!.increment();
+      await expect.element(screen.getByTestId('class-lazy')).toHaveTextContent('Count: 2');
+    });
+
+    it('passes refs through forwardRef() components', async () => {
+      const Input = forwardRef<HTMLInputElement, { label: string }>((props, ref) =>
+        createElement('input', { ref, 'aria-label': props.label, 'data-testid': 'forwarded-input' })
+      );
+
+      const LazyInput = lazy(() => Promise.resolve({ Input }), 'Input');
+      const ref = createRef<HTMLInputElement>();
+
+      const screen = render(
+        createElement(Suspense, { fallback: 'Loading...' },
+          createElement(LazyInput, { label: 'Name', ref })
+        )
+      );
+
+      await expect.element(screen.getByTestId('forwarded-input')).toBeInTheDocument();
+      expect(ref.current).toBe(screen.getByTestId('forwarded-input').element());
+    });
+
+    it('preloadLazyChunks() loads lazy components by id so they render synchronously', async () => {
+      const LazyComp = lazy(
+        () => Promise.resolve({ default: () => createElement('div', { 'data-testid': 'chunk' }, 'Chunk') }),
+        { id: './Chunk' }
+      );
+
+      await preloadLazyChunks(['./Chunk', './Unknown']);
+
+      const container = document.createElement('div');
+      document.body.appendChild(container);
+      preactRender(
+        createElement(Suspense, { fallback: createElement('span', null, 'loading') },
+          createElement(LazyComp, null)
+        ),
+        container
+      );
+
+      expect(container.innerHTML).toBe('<div data-testid="chunk">Chunk</div>');
+      preactRender(null, container);
+      container.remove();
+    });
   });
 
 
@@ -297,10 +385,11 @@ describe('Suspense', () => {
   });
 
 
-  describe('hydration behavior', () => {
+  describe('fallback timing', () => {
     let container: HTMLDivElement;
 
     beforeEach(() => {
+      vi.useFakeTimers();
       container = document.createElement('div');
       document.body.appendChild(container);
     });
@@ -308,217 +397,1223 @@ describe('Suspense', () => {
     afterEach(() => {
       preactRender(null, container);
       container.remove();
+      vi.useRealTimers();
     });
 
-    it('leaves server-rendered HTML alive during hydration until promise resolves', async () => {
+    it('delayMs skips the fallback when the suspension settles in time', async () => {
       const d = deferred();
-      let resolvedState = false;
-      d.promise.then(() => { resolvedState = true; });
+      const Suspending = createSuspendingComponent(d);
 
-      function AsyncChild() {
-        if (!resolvedState) throw d.promise;
-        return createElement('div', { 'data-testid': 'hydrated-child' }, 'Client content');
-      }
+      preactRender(
+        createElement(Suspense, {
+          delayMs: 200,
+          fallback: createElement('div', { 'data-testid': 'delay-fb' }, 'Loading...')
+        },
+          createElement(Suspending, { text: 'Fast' })
+        ),
+        container
+      );
 
-      container.innerHTML =
-        '<div data-testid="hydrated-child">Server content</div>';
+      await vi.advanceTimersByTimeAsync(100);
+      expect(container.querySelector('[data-testid="delay-fb"]')).toBeNull();
 
-      const ssrNode = container.querySelector('[data-testid="hydrated-child"]')!;
-      expect(ssrNode).not.toBeNull();
-      expect(ssrNode.textContent).toBe('Server content');
+      d.resolve();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(container.textContent).toBe('Fast');
 
-      preactHydrate(
+      await vi.advanceTimersByTimeAsync(200);
+      expect(container.querySelector('[data-testid="delay-fb"]')).toBeNull();
+    });
+
+    it('delayMs shows the fallback once the suspension lasts long enough', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+
+      preactRender(
         createElement(Suspense, {
-          fallback: createElement('div', { 'data-testid': 'hydrate-fb' }, 'Loading...')
+          delayMs: 200,
+          fallback: createElement('div', { 'data-testid': 'delay-fb' }, 'Loading...')
         },
-          createElement(AsyncChild, null)
+          createElement(Suspending, { text: 'Slow' })
         ),
         container
       );
-      await flush();
 
-      expect(container.querySelector('[data-testid="hydrate-fb"]')).toBeNull();
+      await vi.advanceTimersByTimeAsync(199);
+      expect(container.querySelector('[data-testid="delay-fb"]')).toBeNull();
 
-      expect(container.querySelector('[data-testid="hydrated-child"]')).not.toBeNull();
-      expect(container.querySelector('[data-testid="hydrated-child"]')!.textContent).toBe('Server content');
+      await vi.advanceTimersByTimeAsync(1);
+      expect(container.querySelector('[data-testid="delay-fb"]')).not.toBeNull();
 
       d.resolve();
-      await flush();
-
-      expect(container.querySelector('[data-testid="hydrated-child"]')).not.toBeNull();
-      expect(container.querySelector('[data-testid="hydrated-child"]')!.textContent).toBe('Client content');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(container.textContent).toBe('Slow');
     });
 
-    it('leaves HTML alive during hydration with a lazy component', async () => {
-      const d = deferred<{ default: any }>();
-
-      const LazyChild = lazy(() => d.promise);
-
-      container.innerHTML = '<p data-testid="lazy-ssr">SSR lazy content</p>';
+    it('minDurationMs keeps the fallback on screen for at least that long', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
 
-      preactHydrate(
+      preactRender(
         createElement(Suspense, {
-          fallback: createElement('div', { 'data-testid': 'lazy-hydrate-fb' }, 'Hydrating lazy...')
+          minDurationMs: 300,
+          fallback: createElement('div', { 'data-testid': 'min-fb' }, 'Loading...')
         },
-          createElement(LazyChild, null)
+          createElement(Suspending, { text: 'Done' })
         ),
         container
       );
-      await flush();
 
-      expect(container.querySelector('[data-testid="lazy-hydrate-fb"]')).toBeNull();
-      expect(container.querySelector('[data-testid="lazy-ssr"]')!.textContent).toBe('SSR lazy content');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(container.querySelector('[data-testid="min-fb"]')).not.toBeNull();
 
-      d.resolve({
-        default: () => createElement('p', { 'data-testid': 'lazy-ssr' }, 'Client lazy content')
-      });
-      await flush();
+      await vi.advanceTimersByTimeAsync(50);
+      d.resolve();
+      await vi.advanceTimersByTimeAsync(200);
+      expect(container.querySelector('[data-testid="min-fb"]')).not.toBeNull();
 
-      expect(container.querySelector('[data-testid="lazy-ssr"]')!.textContent).toBe('Client lazy content');
+      await vi.advanceTimersByTimeAsync(50);
+      expect(container.textContent).toBe('Done');
     });
 
-    it('shows fallback during normal (non-hydration) render', async () => {
+    it('minDurationMs does not hold back a fallback that was shown long enough', async () => {
       const d = deferred();
       const Suspending = createSuspendingComponent(d);
 
-      const screen = render(
+      preactRender(
         createElement(Suspense, {
-          fallback: createElement('div', { 'data-testid': 'normal-fb' }, 'Normal fallback')
+          minDurationMs: 100,
+          fallback: createElement('div', { 'data-testid': 'min-fb' }, 'Loading...')
         },
-          createElement(Suspending, null)
-        )
+          createElement(Suspending, { text: 'Done' })
+        ),
+        container
       );
 
-      await expect.element(screen.getByTestId('normal-fb')).toBeVisible();
-
+      await vi.advanceTimersByTimeAsync(150);
       d.resolve();
-      await flush();
+      await vi.advanceTimersByTimeAsync(0);
 
-      await expect.element(screen.getByTestId('resolved')).toBeVisible();
+      expect(container.textContent).toBe('Done');
     });
+  });
 
-    it('does not flash fallback then replace SSR content during hydration', async () => {
-      const d = deferred();
-      let resolvedState = false;
-      d.promise.then(() => { resolvedState = true; });
 
-      function SlowChild() {
-        if (!resolvedState) throw d.promise;
-        return createElement('span', null, 'Ready');
-      }
+  describe('timeouts', () => {
+    let container: HTMLDivElement;
 
-      container.innerHTML = '<span>Server ready</span>';
-      const mutations: MutationRecord[] = [];
-      const observer = new MutationObserver((records) => mutations.push(...records));
-      observer.observe(container, { childList: true, subtree: true });
+    beforeEach(() => {
+      vi.useFakeTimers();
+      container = document.createElement('div');
+      document.body.appendChild(container);
+    });
 
-      preactHydrate(
+    afterEach(() => {
+      preactRender(null, container);
+      container.remove();
+      vi.useRealTimers();
+    });
+
+    it('renders timeoutFallback once timeoutMs runs out', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+      const onTimeout = vi.fn();
+
+      preactRender(
         createElement(Suspense, {
-          fallback: createElement('div', null, 'FALLBACK')
+          timeoutMs: 1000,
+          onTimeout,
+          fallback: 'Loading...',
+          timeoutFallback: createElement('div', { 'data-testid': 'timeout-fb' }, 'Taking too long')
         },
-          createElement(SlowChild, null)
+          createElement(Suspending, { text: 'Slow' })
         ),
         container
       );
-      await flush();
 
-      expect(container.innerHTML).not.toContain('FALLBACK');
+      await vi.advanceTimersByTimeAsync(999);
+      expect(container.textContent).toBe('Loading...');
+      expect(onTimeout).not.toHaveBeenCalled();
 
-      expect(container.querySelector('span')!.textContent).toBe('Server ready');
+      await vi.advanceTimersByTimeAsync(1);
+      expect(container.textContent).toBe('Taking too long');
+      expect(onTimeout).toHaveBeenCalledTimes(1);
 
+      // The children still show up if the suspension settles after all.
       d.resolve();
-      await flush();
-
-      observer.disconnect();
-      expect(container.querySelector('span')!.textContent).toBe('Ready');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(container.textContent).toBe('Slow');
     });
-  });
-
 
-  describe('promise rejection', () => {
-    it('un-suspends when the promise rejects', async () => {
+    it('does not time out when the suspension settles in time', async () => {
       const d = deferred();
-      let resolvedState = false;
-      let rejectedState = false;
+      const Suspending = createSuspendingComponent(d);
+      const onTimeout = vi.fn();
 
-      d.promise.then(
-        () => { resolvedState = true; },
-        () => { rejectedState = true; }
+      preactRender(
+        createElement(Suspense, { timeoutMs: 1000, onTimeout, fallback: 'Loading...', timeoutFallback: 'Timed out' },
+          createElement(Suspending, { text: 'Fast' })
+        ),
+        container
       );
 
-      function RejectableChild() {
-        if (!resolvedState && !rejectedState) throw d.promise;
-        return createElement('div', { 'data-testid': 'after-reject' }, rejectedState ? 'Rejected' : 'Resolved');
-      }
+      await vi.advanceTimersByTimeAsync(500);
+      d.resolve();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(container.textContent).toBe('Fast');
+      expect(onTimeout).not.toHaveBeenCalled();
+    });
 
-      const screen = render(
+    it('passes a timeout error to errorFallback, and retries', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+
+      preactRender(
         createElement(Suspense, {
-          fallback: createElement('div', { 'data-testid': 'reject-fb' }, 'Loading...')
+          timeoutMs: 1000,
+          fallback: 'Loading...',
+          errorFallback: (error: any, retry: () => void) =>
+            createElement('button', { onClick: retry }, error.message)
         },
-          createElement(RejectableChild, null)
-        )
+          createElement(Suspending, { text: 'Eventually' })
+        ),
+        container
       );
 
-      await expect.element(screen.getByTestId('reject-fb')).toBeVisible();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(container.textContent).toBe('Suspense: timed out after 1000ms');
 
-      d.reject(new Error('Test error'));
-      await flush();
+      container.querySelector('button')!.click();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(container.textContent).toBe('Loading...');
 
-      await expect.element(screen.getByTestId('after-reject')).toBeVisible();
-      await expect.element(screen.getByTestId('after-reject')).toHaveTextContent('Rejected');
+      d.resolve();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(container.textContent).toBe('Eventually');
     });
-  });
 
+    it('throws the timeout error to the error boundaries above without errorFallback', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
 
-  describe('re-suspending', () => {
-    it('can suspend, resolve, and suspend again', async () => {
-      const d1 = deferred();
-      let phase = 1;
-      let resolved1 = false;
-      let resolved2 = false;
+      class Boundary extends Component<{ children?: any }, { error: any }> {
+        componentDidCatch(error: any) {
+          this.setState({ error });
+        }
+        render() {
+          return this.state.error ? `Caught: ${this.state.error.message}` : this.props.children;
+        }
+      }
 
-      d1.promise.then(() => { resolved1 = true; });
+      preactRender(
+        createElement(Boundary, null,
+          createElement(Suspense, { timeoutMs: 500, fallback: 'Loading...' },
+            createElement(Suspending, null)
+          )
+        ),
+        container
+      );
 
-      function PhasedChild() {
-        if (phase === 1 && !resolved1) throw d1.promise;
-        return createElement('div', { 'data-testid': 'phased' }, `Phase ${phase}`);
-      }
+      await vi.advanceTimersByTimeAsync(500);
+      expect(container.textContent).toBe('Caught: Suspense: timed out after 500ms');
+    });
+  });
+
+  describe('lifecycle callbacks', () => {
+    it('reports suspending, showing the fallback and resolving', async () => {
+      const d1 = deferred();
+      const d2 = deferred();
+      const First = createSuspendingComponent(d1);
+      const Second = createSuspendingComponent(d2);
+      const onSuspend = vi.fn();
+      const onFallbackShown = vi.fn();
+      const onResolve = vi.fn();
 
       const screen = render(
         createElement(Suspense, {
-          fallback: createElement('div', { 'data-testid': 'phased-fb' }, 'Loading phase...')
+          fallback: createElement('div', { 'data-testid': 'cb-fb' }, 'Loading...'),
+          onSuspend,
+          onFallbackShown,
+          onResolve
         },
-          createElement(PhasedChild, null)
+          createElement(First, { text: 'First' }),
+          createElement(Second, { text: 'Second' })
         )
       );
 
-      await expect.element(screen.getByTestId('phased-fb')).toBeVisible();
+      await expect.element(screen.getByTestId('cb-fb')).toBeVisible();
+      expect(onSuspend).toHaveBeenCalledTimes(2);
+      expect(onSuspend).toHaveBeenNthCalledWith(1, {
+        promise: d1.promise,
+        componentName: 'Suspending',
+        pendingCount: 1
+      });
+      expect(onSuspend.mock.calls[1][0].pendingCount).toBe(2);
+      expect(onFallbackShown).toHaveBeenCalledTimes(1);
 
       d1.resolve();
       await flush();
+      expect(onResolve).not.toHaveBeenCalled();
 
-      await expect.element(screen.getByTestId('phased')).toBeVisible();
-      await expect.element(screen.getByTestId('phased')).toHaveTextContent('Phase 1');
+      d2.resolve();
+      await flush();
+
+      expect(onResolve).toHaveBeenCalledTimes(1);
+      expect(onResolve.mock.calls[0][0].suspenders).toEqual(['Suspending']);
+      expect(onResolve.mock.calls[0][0].durationMs).toBeGreaterThanOrEqual(0);
     });
 
-    it('stops running effects while child subtree is suspended', async () => {
-      vi.useFakeTimers();
+    it('does not report a fallback during hydration', async () => {
       const d = deferred();
-      const tick = vi.fn();
-      const cleanup = vi.fn();
+      const Suspending = createSuspendingComponent(d);
+      const onFallbackShown = vi.fn();
+      const onResolve = vi.fn();
       const container = document.createElement('div');
+      container.innerHTML = '<div data-testid="resolved">Server</div>';
       document.body.appendChild(container);
 
-      let shouldSuspend = false;
+      try {
+        preactHydrate(
+          createElement(Suspense, { fallback: 'Loading...', onFallbackShown, onResolve },
+            createElement(Suspending, null)
+          ),
+          container
+        );
 
-      function ChildWithEffect() {
-        useEffect(() => {
-          const id = setInterval(() => tick(), 20);
-          return () => {
-            clearInterval(id);
-            cleanup();
-          };
-        }, []);
+        d.resolve();
+        await flush();
+
+        expect(onFallbackShown).not.toHaveBeenCalled();
+        expect(onResolve).toHaveBeenCalledTimes(1);
+      } finally {
+        preactRender(null, container);
+        container.remove();
+      }
+    });
+
+    it('subscribeSuspense receives events from every boundary', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+      const events: SuspenseEvent[] = [];
+      const unsubscribe = subscribeSuspense((event) => events.push(event));
+
+      try {
+        render(
+          createElement(Suspense, { fallback: 'Loading...' },
+            createElement(Suspending, null)
+          )
+        );
+        await flush();
+
+        d.resolve();
+        await flush();
+
+        expect(events.map((event) => event.type)).toEqual(['suspend', 'fallback', 'resolve']);
+        expect(events[0].boundary).toBeInstanceOf(Suspense);
+      } finally {
+        unsubscribe();
+      }
+
+      const d2 = deferred();
+      const Later = createSuspendingComponent(d2);
+      render(createElement(Suspense, null, createElement(Later, null)));
+      await flush();
+      expect(events).toHaveLength(3);
+      d2.resolve();
+    });
+  });
+
+
+  describe('hydration behavior', () => {
+    let container: HTMLDivElement;
+
+    beforeEach(() => {
+      container = document.createElement('div');
+      document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      preactRender(null, container);
+      container.remove();
+    });
+
+    it('leaves server-rendered HTML alive during hydration until promise resolves', async () => {
+      const d = deferred();
+      let resolvedState = false;
+      d.promise.then(() => { resolvedState = true; });
+
+      function AsyncChild() {
+        if (!resolvedState) throw d.promise;
+        return createElement('div', { 'data-testid': 'hydrated-child' }, 'Client content');
+      }
+
+      container.innerHTML =
+        '<div data-testid="hydrated-child">Server content</div>';
+
+      const ssrNode = container.querySelector('[data-testid="hydrated-child"]')!;
+      expect(ssrNode).not.toBeNull();
+      expect(ssrNode.textContent).toBe('Server content');
+
+      preactHydrate(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'hydrate-fb' }, 'Loading...')
+        },
+          createElement(AsyncChild, null)
+        ),
+        container
+      );
+      await flush();
+
+      expect(container.querySelector('[data-testid="hydrate-fb"]')).toBeNull();
+
+      expect(container.querySelector('[data-testid="hydrated-child"]')).not.toBeNull();
+      expect(container.querySelector('[data-testid="hydrated-child"]')!.textContent).toBe('Server content');
+
+      d.resolve();
+      await flush();
+
+      expect(container.querySelector('[data-testid="hydrated-child"]')).not.toBeNull();
+      expect(container.querySelector('[data-testid="hydrated-child"]')!.textContent).toBe('Client content');
+    });
+
+    it('renders on the client when a suspension rejects during hydration', async () => {
+      const first = deferred<{ default: any }>();
+      let attempts = 0;
+      const LazyChild = lazy(() => {
+        attempts++;
+        return attempts === 1
+          ? first.promise
+          : Promise.resolve({ default: () => createElement('p', { 'data-testid': 'recovered' }, 'Client render') });
+      });
+      const onRecoverableError = vi.fn();
+      const fallbacks: string[] = [];
+
+      container.innerHTML = '<p data-testid="stale-ssr">Server render</p>';
+
+      preactHydrate(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'recover-fb' }, 'Loading...'),
+          onRecoverableError,
+          onFallbackShown: () => fallbacks.push(container.innerHTML)
+        },
+          createElement(LazyChild, null)
+        ),
+        container
+      );
+      await flush();
+      expect(container.querySelector('[data-testid="stale-ssr"]')).not.toBeNull();
+
+      const error = new Error('Chunk failed');
+      first.reject(error);
+      await flush();
+
+      expect(onRecoverableError).toHaveBeenCalledWith(error);
+      // The server markup made way for the fallback before the client render.
+      expect(fallbacks[0]).toBe('<div data-testid="recover-fb">Loading...</div>');
+      expect(attempts).toBe(2);
+      expect(container.querySelector('[data-testid="stale-ssr"]')).toBeNull();
+      expect(container.querySelector('[data-testid="recovered"]')!.textContent).toBe('Client render');
+    });
+
+    it('renders on the client when the children do not match the server markup', async () => {
+      const onRecoverableError = vi.fn();
+
+      container.innerHTML = '<span>Server header</span><p>Server render</p><footer>Footer</footer>';
+
+      preactHydrate(
+        createElement(Fragment, null,
+          createElement(Suspense, { fallback: 'Loading...', onRecoverableError },
+            createElement('h1', null, 'Client header'),
+            createElement('p', null, 'Client render')
+          ),
+          createElement('footer', null, 'Footer')
+        ),
+        container
+      );
+      await flush();
+
+      expect(onRecoverableError).toHaveBeenCalledTimes(1);
+      expect(onRecoverableError.mock.calls[0][0].message).toBe(
+        'Suspense: hydration mismatch, the server markup has no <h1>'
+      );
+      expect(container.innerHTML).toBe('<h1>Client header</h1><p>Client render</p><footer>Footer</footer>');
+    });
+
+    it('hands errors thrown while hydrating to errorFallback', async () => {
+      const d = deferred();
+      const Data = createSuspendingComponent(d);
+      function Broken(): any {
+        throw new Error('Broken');
+      }
+      const onRecoverableError = vi.fn();
+      const errorFallback = (error: any) => createElement('p', null, `Error: ${error.message}`);
+
+      container.innerHTML = '<div data-testid="resolved">Loaded</div><p>Server render</p>';
+
+      preactHydrate(
+        createElement(Suspense, { fallback: 'Loading...', onRecoverableError, errorFallback },
+          createElement(Data, null),
+          createElement(Broken, null)
+        ),
+        container
+      );
+      await flush();
+
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(container.textContent).toBe('Error: Broken');
+      d.resolve();
+    });
+
+    it('does not treat a first render into existing markup as hydration', async () => {
+      let renders = 0;
+      function Broken() {
+        renders++;
+        throw new Error('Broken');
+      }
+      const onRecoverableError = vi.fn();
+      const errorFallback = (error: any) => createElement('p', null, `Error: ${error.message}`);
+
+      container.innerHTML = '<p>placeholder</p>';
+      preactRender(
+        createElement(Suspense, { fallback: 'Loading...', onRecoverableError, errorFallback },
+          createElement(Broken, null)
+        ),
+        container
+      );
+      await flush();
+
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(renders).toBe(1);
+      expect(container.textContent).toBe('Error: Broken');
+    });
+
+    it('does not treat errors after hydration as recoverable', async () => {
+      let fail = false;
+      function Child() {
+        if (fail) throw new Error('Broken');
+        return createElement('p', null, 'Fine');
+      }
+      const onRecoverableError = vi.fn();
+      const errorFallback = (error: any) => createElement('p', null, `Error: ${error.message}`);
+
+      container.innerHTML = '<p>Fine</p>';
+      preactHydrate(
+        createElement(Suspense, { fallback: 'Loading...', onRecoverableError, errorFallback },
+          createElement(Child, null)
+        ),
+        container
+      );
+      await flush();
+
+      fail = true;
+      preactRender(
+        createElement(Suspense, { fallback: 'Loading...', onRecoverableError, errorFallback },
+          createElement(Child, { key: 'again' })
+        ),
+        container
+      );
+      await flush();
+
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(container.textContent).toBe('Error: Broken');
+    });
+
+    it('leaves HTML alive during hydration with a lazy component', async () => {
+      const d = deferred<{ default: any }>();
+
+      const LazyChild = lazy(() => d.promise);
+
+      container.innerHTML = '<p data-testid="lazy-ssr">SSR lazy content</p>';
+
+      preactHydrate(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'lazy-hydrate-fb' }, 'Hydrating lazy...')
+        },
+          createElement(LazyChild, null)
+        ),
+        container
+      );
+      await flush();
+
+      expect(container.querySelector('[data-testid="lazy-hydrate-fb"]')).toBeNull();
+      expect(container.querySelector('[data-testid="lazy-ssr"]')!.textContent).toBe('SSR lazy content');
+
+      d.resolve({
+        default: () => createElement('p', { 'data-testid': 'lazy-ssr' }, 'Client lazy content')
+      });
+      await flush();
+
+      expect(container.querySelector('[data-testid="lazy-ssr"]')!.textContent).toBe('Client lazy content');
+    });
+
+    it('shows fallback during normal (non-hydration) render', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'normal-fb' }, 'Normal fallback')
+        },
+          createElement(Suspending, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('normal-fb')).toBeVisible();
+
+      d.resolve();
+      await flush();
+
+      await expect.element(screen.getByTestId('resolved')).toBeVisible();
+    });
+
+    it('does not flash fallback then replace SSR content during hydration', async () => {
+      const d = deferred();
+      let resolvedState = false;
+      d.promise.then(() => { resolvedState = true; });
+
+      function SlowChild() {
+        if (!resolvedState) throw d.promise;
+        return createElement('span', null, 'Ready');
+      }
+
+      container.innerHTML = '<span>Server ready</span>';
+      const mutations: MutationRecord[] = [];
+      const observer = new MutationObserver((records) => mutations.push(...records));
+      observer.observe(container, { childList: true, subtree: true });
+
+      preactHydrate(
+        createElement(Suspense, {
+          fallback: createElement('div', null, 'FALLBACK')
+        },
+          createElement(SlowChild, null)
+        ),
+        container
+      );
+      await flush();
+
+      expect(container.innerHTML).not.toContain('FALLBACK');
+
+      expect(container.querySelector('span')!.textContent).toBe('Server ready');
+
+      d.resolve();
+      await flush();
+
+      observer.disconnect();
+      expect(container.querySelector('span')!.textContent).toBe('Ready');
+    });
+  });
+
+
+  describe('promise rejection', () => {
+    it('un-suspends when the promise rejects', async () => {
+      const d = deferred();
+      let resolvedState = false;
+      let rejectedState = false;
+
+      d.promise.then(
+        () => { resolvedState = true; },
+        () => { rejectedState = true; }
+      );
+
+      function RejectableChild() {
+        if (!resolvedState && !rejectedState) throw d.promise;
+        return createElement('div', { 'data-testid': 'after-reject' }, rejectedState ? 'Rejected' : 'Resolved');
+      }
+
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'reject-fb' }, 'Loading...')
+        },
+          createElement(RejectableChild, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('reject-fb')).toBeVisible();
+
+      d.reject(new Error('Test error'));
+      await flush();
+
+      await expect.element(screen.getByTestId('after-reject')).toBeVisible();
+      await expect.element(screen.getByTestId('after-reject')).toHaveTextContent('Rejected');
+    });
+  });
+
+
+  describe('lazy load failures', () => {
+    it('renders errorFallback when a lazy component fails to load', async () => {
+      const LazyComp = lazy(() => Promise.reject(new Error('Chunk failed')));
+
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'err-fb' }, 'Loading...'),
+          errorFallback: (error: any) =>
+            createElement('div', { 'data-testid': 'err' }, error.message)
+        },
+          createElement(LazyComp, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('err')).toBeVisible();
+      await expect.element(screen.getByTestId('err')).toHaveTextContent('Chunk failed');
+    });
+
+    it('retry() reloads the lazy component and re-renders the subtree', async () => {
+      let attempts = 0;
+      const LazyComp = lazy(() => {
+        attempts++;
+        if (attempts === 1) return Promise.reject(new Error('Network error'));
+        return Promise.resolve({
+          default: () => createElement('div', { 'data-testid': 'retried' }, 'Loaded on retry')
+        });
+      });
+
+      let retry!: () => void;
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('div', null, 'Loading...'),
+          errorFallback: (_error: unknown, r: () => void) => {
+            retry = r;
+            return createElement('div', { 'data-testid': 'retry-err' }, 'Failed');
+          }
+        },
+          createElement(LazyComp, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('retry-err')).toBeVisible();
+
+      retry();
+      await flush();
+
+      await expect.element(screen.getByTestId('retried')).toBeVisible();
+      expect(attempts).toBe(2);
+    });
+
+    it('propagates the error to an outer error boundary without errorFallback', async () => {
+      const LazyComp = lazy(() => Promise.reject(new Error('Boom')));
+
+      class Boundary extends Component<{ children?: any }, { error: any }> {
+        state = { error: null as any };
+        componentDidCatch(error: any) {
+          this.setState({ error });
+        }
+        render() {
+          return this.state.error
+            ? createElement('div', { 'data-testid': 'outer-err' }, this.state.error.message)
+            : this.props.children;
+        }
+      }
+
+      const screen = render(
+        createElement(Boundary, null,
+          createElement(Suspense, { fallback: createElement('div', null, 'Loading...') },
+            createElement(LazyComp, null)
+          )
+        )
+      );
+
+      await expect.element(screen.getByTestId('outer-err')).toHaveTextContent('Boom');
+    });
+  });
+
+
+  describe('lazy retries', () => {
+    it('calls load again before giving up', async () => {
+      let attempts = 0;
+      const LazyComp = lazy(() => {
+        attempts++;
+        if (attempts < 3) return Promise.reject(new Error('Flaky'));
+        return Promise.resolve({
+          default: () => createElement('div', { 'data-testid': 'flaky' }, 'Loaded')
+        });
+      }, { retries: 2 });
+
+      const screen = render(
+        createElement(Suspense, { fallback: createElement('div', null, 'Loading...') },
+          createElement(LazyComp, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('flaky')).toBeVisible();
+      expect(attempts).toBe(3);
+    });
+
+    it('waits an exponentially growing backoff between attempts', async () => {
+      vi.useFakeTimers();
+      try {
+        let attempts = 0;
+        const LazyComp = lazy(() => {
+          attempts++;
+          return Promise.reject(new Error('Down'));
+        }, { retries: 2, backoff: 100 });
+
+        const preloaded = LazyComp.preload().catch((err) => err);
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(attempts).toBe(1);
+        await vi.advanceTimersByTimeAsync(100);
+      expect(attempts).toBe(2);
+        await vi.advanceTimersByTimeAsync(100);
+      expect(attempts).toBe(2);
+        await vi.advanceTimersByTimeAsync(100);
+        expect(attempts).toBe(3);
+
+        expect((await preloaded).message).toBe('Down');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('stops retrying when shouldRetry returns false', async () => {
+      const shouldRetry = vi.fn((error: any) => error.message !== 'Fatal');
+      let attempts = 0;
+      const LazyComp = lazy(() => {
+        attempts++;
+        return Promise.reject(new Error('Fatal'));
+      }, { retries: 3, shouldRetry });
+
+      await expect(LazyComp.preload()).rejects.toThrow('Fatal');
+      expect(attempts).toBe(1);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+    });
+
+    it('shares one in-flight attempt between preload() and render', async () => {
+      let attempts = 0;
+      const d = deferred<{ default: any }>();
+      const LazyComp = lazy(() => {
+        attempts++;
+        return d.promise;
+      }, { retries: 1 });
+
+      LazyComp.preload();
+
+      const screen = render(
+        createElement(Suspense, { fallback: createElement('div', null, 'Loading...') },
+          createElement(LazyComp, null)
+        )
+      );
+
+      d.resolve({
+        default: () => createElement('div', { 'data-testid': 'shared' }, 'Shared')
+      });
+
+      await expect.element(screen.getByTestId('shared')).toBeVisible();
+      expect(attempts).toBe(1);
+    });
+  });
+
+
+  describe('lazy cancellation', () => {
+    it('aborts the load when every waiting boundary unmounts, and loads again next time', async () => {
+      const signals: AbortSignal[] = [];
+      const loads: Array<ReturnType<typeof deferred<{ default: any }>>> = [];
+      const LazyComp = lazy(({ signal }) => {
+        signals.push(signal);
+        const d = deferred<{ default: any }>();
+        loads.push(d);
+        signal.addEventListener('abort', () => d.reject(signal.reason));
+        return d.promise;
+      });
+
+      const container = document.createElement('div');
+      document.body.appendChild(container);
+      const app = () =>
+        createElement(Suspense, { fallback: 'Loading...' }, createElement(LazyComp, null));
+
+      preactRender(app(), container);
+      await flush();
+      expect(container.textContent).toBe('Loading...');
+
+      preactRender(null, container);
+      expect(signals[0].aborted).toBe(true);
+
+      preactRender(app(), container);
+      await flush();
+      expect(signals).toHaveLength(2);
+      expect(signals[1].aborted).toBe(false);
+
+      loads[1].resolve({ default: () => createElement('div', null, 'Loaded again') });
+      await flush();
+      expect(container.textContent).toBe('Loaded again');
+
+      preactRender(null, container);
+      container.remove();
+    });
+
+    it('keeps loading while another boundary still waits', async () => {
+      const d = deferred<{ default: any }>();
+      let signal!: AbortSignal;
+      const LazyComp = lazy((context) => {
+        signal = context.signal;
+        return d.promise;
+      });
+
+      let hideFirst!: () => void;
+      function App() {
+        const [showFirst, setShowFirst] = useState(true);
+        hideFirst = () => setShowFirst(false);
+        return createElement('div', null,
+          showFirst && createElement(Suspense, { fallback: 'First...' }, createElement(LazyComp, null)),
+          createElement(Suspense, { fallback: 'Second...' }, createElement(LazyComp, null))
+        );
+      }
+
+      const screen = render(createElement(App, null));
+      await flush();
+
+      hideFirst();
+      await flush();
+      expect(signal.aborted).toBe(false);
+
+      d.resolve({ default: () => createElement('div', { 'data-testid': 'still-loaded' }, 'Loaded') });
+      await expect.element(screen.getByTestId('still-loaded')).toBeInTheDocument();
+    });
+
+    it('keeps a preloaded load going when the boundary waiting on it unmounts', async () => {
+      const d = deferred<{ default: any }>();
+      let signal!: AbortSignal;
+      const LazyComp = lazy((context) => {
+        signal = context.signal;
+        return d.promise;
+      });
+
+      const preloaded = LazyComp.preload();
+      const container = document.createElement('div');
+      document.body.appendChild(container);
+      preactRender(
+        createElement(Suspense, { fallback: 'Loading...' }, createElement(LazyComp, null)),
+        container
+      );
+      await flush();
+
+      preactRender(null, container);
+      container.remove();
+      expect(signal.aborted).toBe(false);
+
+      const Loaded = () => createElement('div', null, 'Loaded');
+      d.resolve({ default: Loaded });
+      await expect(preloaded).resolves.toBe(Loaded);
+    });
+  });
+
+  describe('resetKeys', () => {
+    it('clears the error and renders the children again when a key changes', async () => {
+      function Profile({ id }: { id: number }) {
+        if (id === 1) throw new Error('No profile 1');
+        return createElement('div', { 'data-testid': 'reset-profile' }, `Profile ${id}`);
+      }
+
+      let setId!: (id: number) => void;
+      function App() {
+        const [id, set] = useState(1);
+        setId = set;
+        return createElement(Suspense, {
+          fallback: 'Loading...',
+          resetKeys: [id],
+          errorFallback: (error: any) => createElement('div', { 'data-testid': 'reset-error' }, error.message)
+        }, createElement(Profile, { id }));
+      }
+
+      const screen = render(createElement(App, null));
+      await expect.element(screen.getByTestId('reset-error')).toHaveTextContent('No profile 1');
+
+      setId(2);
+      await expect.element(screen.getByTestId('reset-profile')).toHaveTextContent('Profile 2');
+    });
+
+    it('keeps the error while the keys stay the same', async () => {
+      let rerender!: () => void;
+      let attempts = 0;
+      function Broken(): any {
+        attempts++;
+        throw new Error('Broken');
+      }
+
+      function App() {
+        const [, set] = useState(0);
+        rerender = () => set((n) => n + 1);
+        return createElement(Suspense, {
+          resetKeys: ['same'],
+          errorFallback: () => createElement('div', { 'data-testid': 'kept-error' }, 'Failed')
+        }, createElement(Broken, null));
+      }
+
+      const screen = render(createElement(App, null));
+      await expect.element(screen.getByTestId('kept-error')).toBeInTheDocument();
+      const before = attempts;
+
+      rerender();
+      await flush();
+      expect(screen.getByTestId('kept-error').query()).toBeInTheDocument();
+      expect(attempts).toBe(before);
+    });
+
+    it('stops waiting on the suspensions of the previous keys', async () => {
+      const loads = new Map<number, ReturnType<typeof deferred>>();
+      const loaded = new Set<number>();
+      function User({ id }: { id: number }) {
+        let load = loads.get(id);
+        if (!load) {
+          const d = (load = deferred());
+          loads.set(id, d);
+          d.promise.then(() => loaded.add(id));
+        }
+        if (!loaded.has(id)) throw load.promise;
+        return createElement('div', { 'data-testid': 'reset-user' }, `User ${id}`);
+      }
+
+      const resolves: number[] = [];
+      let setId!: (id: number) => void;
+      function App() {
+        const [id, set] = useState(1);
+        setId = set;
+        return createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'reset-fb' }, 'Loading...'),
+          resetKeys: [id],
+          onResolve: () => resolves.push(id)
+        }, createElement(User, { id }));
+      }
+
+      const screen = render(createElement(App, null));
+      await expect.element(screen.getByTestId('reset-fb')).toBeInTheDocument();
+
+      setId(2);
+      await flush();
+      loads.get(2)!.resolve();
+      await expect.element(screen.getByTestId('reset-user')).toHaveTextContent('User 2');
+      expect(resolves).toEqual([2]);
+
+      loads.get(1)!.resolve();
+      await flush();
+      expect(resolves).toEqual([2]);
+    });
+
+    it('aborts lazy loads the boundary no longer waits on', async () => {
+      let signal!: AbortSignal;
+      const LazyComp = lazy((context) => {
+        signal = context.signal;
+        return new Promise<{ default: any }>(() => {});
+      });
+
+      let setPage!: (page: string) => void;
+      function App() {
+        const [page, set] = useState('lazy');
+        setPage = set;
+        return createElement(Suspense, { fallback: 'Loading...', resetKeys: [page] },
+          page === 'lazy'
+            ? createElement(LazyComp, null)
+            : createElement('div', { 'data-testid': 'reset-static' }, 'Static')
+        );
+      }
+
+      const screen = render(createElement(App, null));
+      await flush();
+      expect(signal.aborted).toBe(false);
+
+      setPage('static');
+      await expect.element(screen.getByTestId('reset-static')).toBeInTheDocument();
+      expect(signal.aborted).toBe(true);
+    });
+  });
+
+  describe('reveal scheduling', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    function stubFrames() {
+      const frames: Array<() => void> = [];
+      vi.stubGlobal('requestAnimationFrame', (callback: () => void) => frames.push(callback));
+      vi.stubGlobal('cancelAnimationFrame', (handle: number) => {
+        frames[handle - 1] = () => {};
+      });
+      return () => frames.splice(0).forEach((frame) => frame());
+    }
+
+    it('renders every lazy component once when many resolve together', async () => {
+      const load = deferred();
+      const renders: number[] = [];
+      const widgets = Array.from({ length: 20 }, (_, i) =>
+        lazy(() => load.promise.then(() => ({
+          default: () => {
+            renders[i] = (renders[i] || 0) + 1;
+            return createElement('span', null, i);
+          }
+        })))
+      );
+
+      const screen = render(
+        createElement(Suspense, { fallback: 'Loading...', delayMs: 1000 },
+          createElement('div', { 'data-testid': 'widgets' }, widgets.map((Widget) => createElement(Widget, null)))
+        )
+      );
+      await flush();
+
+      // The boundary re-renders each waiting wrapper itself; the wrappers
+      // don't also schedule their own update when their load settles.
+      const isWidget = (c: any) => widgets.indexOf(c.constructor) !== -1;
+      const forceUpdate = vi.spyOn(Component.prototype, 'forceUpdate');
+      const setState = vi.spyOn(Component.prototype, 'setState');
+
+      try {
+        load.resolve();
+        await expect.element(screen.getByTestId('widgets')).toHaveTextContent('012345678910111213141516171819');
+        await flush();
+
+        expect(forceUpdate.mock.contexts.filter(isWidget)).toHaveLength(20);
+        expect(setState.mock.contexts.filter(isWidget)).toHaveLength(0);
+      } finally {
+        forceUpdate.mockRestore();
+        setState.mockRestore();
+      }
+      expect(renders).toEqual(Array(20).fill(1));
+    });
+
+    it('waits for the next animation frame and reveals once for everything settled by then', async () => {
+      const runFrames = stubFrames();
+      const first = deferred();
+      const second = deferred();
+      const First = createSuspendingComponent(first);
+      const Second = createSuspendingComponent(second);
+      const onResolve = vi.fn();
+      const renderSpy = vi.spyOn(Suspense.prototype, 'render');
+
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'frame-fb' }, 'Loading...'),
+          scheduler: 'animationFrame',
+          onResolve
+        }, createElement(First, { text: 'First' }), createElement(Second, { text: 'Second' }))
+      );
+      await flush();
+      renderSpy.mockClear();
+
+      first.resolve();
+      await flush();
+      second.resolve();
+      await flush();
+      expect(screen.getByTestId('frame-fb').query()).toBeInTheDocument();
+      expect(onResolve).not.toHaveBeenCalled();
+
+      runFrames();
+      await flush();
+      expect(screen.getByTestId('frame-fb').query()).toBeNull();
+      expect(screen.container.querySelectorAll('[data-testid="resolved"]')).toHaveLength(2);
+      expect(onResolve).toHaveBeenCalledTimes(1);
+      expect(renderSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('reveals during an idle period', async () => {
+      const idle: Array<() => void> = [];
+      const requestIdle = vi.fn((callback: () => void) => idle.push(callback));
+      vi.stubGlobal('requestIdleCallback', requestIdle);
+      vi.stubGlobal('cancelIdleCallback', () => {});
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'idle-fb' }, 'Loading...'),
+          scheduler: 'idle'
+        }, createElement(Suspending, null))
+      );
+      await flush();
+
+      d.resolve();
+      await flush();
+      expect(screen.getByTestId('idle-fb').query()).toBeInTheDocument();
+      expect(requestIdle).toHaveBeenCalledWith(expect.any(Function), { timeout: 1000 });
+
+      idle.splice(0).forEach((callback) => callback());
+      await expect.element(screen.getByTestId('resolved')).toBeInTheDocument();
+    });
+
+    it('defers to a microtask', async () => {
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+      const onResolve = vi.fn();
+
+      render(createElement(Suspense, { fallback: 'Loading...', scheduler: 'microtask', onResolve },
+        createElement(Suspending, null)
+      ));
+      await flush();
+
+      d.resolve();
+      await d.promise;
+      expect(onResolve).not.toHaveBeenCalled();
+      await flush();
+      expect(onResolve).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops a scheduled reveal when the boundary unmounts', async () => {
+      const runFrames = stubFrames();
+      const d = deferred();
+      const Suspending = createSuspendingComponent(d);
+      const onResolve = vi.fn();
+
+      const screen = render(createElement(Suspense, { fallback: 'Loading...', scheduler: 'animationFrame', onResolve },
+        createElement(Suspending, null)
+      ));
+      await flush();
+
+      d.resolve();
+      await flush();
+      screen.unmount();
+      runFrames();
+      expect(onResolve).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('re-suspending', () => {
+    it('can suspend, resolve, and suspend again', async () => {
+      const d1 = deferred();
+      let phase = 1;
+      let resolved1 = false;
+      let resolved2 = false;
+
+      d1.promise.then(() => { resolved1 = true; });
+
+      function PhasedChild() {
+        if (phase === 1 && !resolved1) throw d1.promise;
+        return createElement('div', { 'data-testid': 'phased' }, `Phase ${phase}`);
+      }
+
+      const screen = render(
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'phased-fb' }, 'Loading phase...')
+        },
+          createElement(PhasedChild, null)
+        )
+      );
+
+      await expect.element(screen.getByTestId('phased-fb')).toBeVisible();
+
+      d1.resolve();
+      await flush();
+
+      await expect.element(screen.getByTestId('phased')).toBeVisible();
+      await expect.element(screen.getByTestId('phased')).toHaveTextContent('Phase 1');
+    });
+
+    it('stops running effects while child subtree is suspended', async () => {
+      vi.useFakeTimers();
+      const d = deferred();
+      const tick = vi.fn();
+      const cleanup = vi.fn();
+      const container = document.createElement('div');
+      document.body.appendChild(container);
+
+      let shouldSuspend = false;
+
+      function ChildWithEffect() {
+        useEffect(() => {
+          const id = setInterval(() => tick(), 20);
+          return () => {
+            clearInterval(id);
+            cleanup();
+          };
+        }, []);
 
         if (shouldSuspend) throw d.promise;
         return createElement('div', { 'data-testid': 'active-child' }, 'Active');
@@ -574,6 +1669,256 @@ describe('Suspense', () => {
   });
 
 
+  describe('preserveChildren', () => {
+    let container: HTMLDivElement;
+
+    beforeEach(() => {
+      container = document.createElement('div');
+      document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      preactRender(null, container);
+      container.remove();
+    });
+
+    it('keeps sibling state and DOM while the fallback is shown', async () => {
+      const d = deferred();
+      let shouldSuspend = false;
+      let increment!: () => void;
+
+      function Counter() {
+        const [count, setCount] = useState(0);
+        increment = () => setCount((c) => c + 1);
+        return createElement('span', { 'data-testid': 'count' }, `Count: ${count}`);
+      }
+
+      function MaybeSuspend() {
+        if (shouldSuspend) throw d.promise;
+        return createElement('p', null, 'Content');
+      }
+
+      const app = () => createElement(Suspense, {
+        preserveChildren: true,
+        fallback: createElement('div', { 'data-testid': 'keep-fb' }, 'Loading...')
+      },
+        createElement(Counter, null),
+        createElement(MaybeSuspend, null)
+      );
+
+      preactRender(app(), container);
+      increment();
+      await flush();
+      const countNode = container.querySelector('[data-testid="count"]') as HTMLElement;
+      expect(countNode.textContent).toBe('Count: 1');
+
+      shouldSuspend = true;
+      preactRender(app(), container);
+      await flush();
+
+      expect(container.querySelector('[data-testid="keep-fb"]')).not.toBeNull();
+      expect(container.querySelector('[data-testid="count"]')).toBe(countNode);
+      expect(countNode.style.display).toBe('none');
+
+      shouldSuspend = false;
+      d.resolve();
+      await flush();
+
+      expect(container.querySelector('[data-testid="keep-fb"]')).toBeNull();
+      expect(container.querySelector('[data-testid="count"]')).toBe(countNode);
+      expect(countNode.style.display).toBe('');
+      expect(countNode.textContent).toBe('Count: 1');
+      expect(container.textContent).toBe('Count: 1Content');
+    });
+
+    it('pauses effects of preserved children until the boundary resolves', async () => {
+      vi.useFakeTimers();
+      const d = deferred();
+      const tick = vi.fn();
+      const cleanup = vi.fn();
+      let shouldSuspend = false;
+
+      function Ticker() {
+        useEffect(() => {
+          const id = setInterval(() => tick(), 20);
+          return () => {
+            clearInterval(id);
+            cleanup();
+          };
+        }, []);
+        return createElement('div', null, 'Ticking');
+      }
+
+      function MaybeSuspend() {
+        if (shouldSuspend) throw d.promise;
+        return null;
+      }
+
+      const app = () => createElement(Suspense, {
+        preserveChildren: true,
+        fallback: createElement('div', { 'data-testid': 'pause-fb' }, 'Loading...')
+      },
+        createElement(Ticker, null),
+        createElement(MaybeSuspend, null)
+      );
+
+      try {
+        preactRender(app(), container);
+        await vi.advanceTimersByTimeAsync(60);
+        expect(tick.mock.calls.length).toBeGreaterThan(0);
+
+        shouldSuspend = true;
+        preactRender(app(), container);
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(container.querySelector('[data-testid="pause-fb"]')).not.toBeNull();
+        expect(cleanup).toHaveBeenCalledTimes(1);
+
+        const callsWhileSuspended = tick.mock.calls.length;
+        await vi.advanceTimersByTimeAsync(100);
+        expect(tick.mock.calls.length).toBe(callsWhileSuspended);
+
+        shouldSuspend = false;
+        d.resolve();
+        await vi.advanceTimersByTimeAsync(60);
+
+        expect(container.querySelector('[data-testid="pause-fb"]')).toBeNull();
+        expect(tick.mock.calls.length).toBeGreaterThan(callsWhileSuspended);
+        expect(cleanup).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('re-runs effects without a cleanup when the children are shown again', async () => {
+      const d = deferred();
+      let shouldSuspend = false;
+      let runs = 0;
+
+      function Tracker() {
+        useEffect(() => {
+          runs++;
+        }, []);
+        return createElement('div', null, 'Tracking');
+      }
+
+      function MaybeSuspend() {
+        if (shouldSuspend) throw d.promise;
+        return null;
+      }
+
+      const app = () => createElement(Suspense, { preserveChildren: true, fallback: 'Loading...' },
+        createElement(Tracker, null),
+        createElement(MaybeSuspend, null)
+      );
+
+      preactRender(app(), container);
+      await flush(50);
+      expect(runs).toBe(1);
+
+      shouldSuspend = true;
+      preactRender(app(), container);
+      await flush(50);
+
+      shouldSuspend = false;
+      d.resolve();
+      await flush(50);
+
+      expect(container.textContent).toBe('Tracking');
+      expect(runs).toBe(2);
+    });
+
+    it('cleans up effects that ran while hidden before running them again', async () => {
+      const d = deferred();
+      let shouldSuspend = false;
+      let subscriptions = 0;
+      let setTopic!: (topic: string) => void;
+
+      function Subscriber() {
+        const [topic, set] = useState('a');
+        setTopic = set;
+        useEffect(() => {
+          subscriptions++;
+          return () => {
+            subscriptions--;
+          };
+        }, [topic]);
+        return createElement('div', null, topic);
+      }
+
+      function MaybeSuspend() {
+        if (shouldSuspend) throw d.promise;
+        return null;
+      }
+
+      const app = () => createElement(Suspense, { preserveChildren: true, fallback: 'Loading...' },
+        createElement(Subscriber, null),
+        createElement(MaybeSuspend, null)
+      );
+
+      preactRender(app(), container);
+      await flush(50);
+      expect(subscriptions).toBe(1);
+
+      shouldSuspend = true;
+      preactRender(app(), container);
+      await flush(50);
+      expect(subscriptions).toBe(0);
+
+      setTopic('b');
+      await flush(50);
+
+      shouldSuspend = false;
+      d.resolve();
+      await flush(50);
+
+      expect(container.textContent).toBe('b');
+      expect(subscriptions).toBe(1);
+    });
+
+    it('re-runs effects once the children are back on screen', async () => {
+      const d = deferred();
+      let shouldSuspend = false;
+      const seen: string[] = [];
+
+      function Field() {
+        const input = useRef<HTMLInputElement>(null);
+        useLayoutEffect(() => {
+          input.current!.focus();
+          seen.push(`layout: focused ${document.activeElement === input.current}`);
+        }, []);
+        useEffect(() => {
+          seen.push(`effect: ${input.current!.style.display || 'shown'}, ${container.textContent}`);
+        }, []);
+        return createElement('input', { ref: input });
+      }
+
+      function MaybeSuspend() {
+        if (shouldSuspend) throw d.promise;
+        return null;
+      }
+
+      const app = () => createElement(Suspense, { preserveChildren: true, fallback: 'Loading...' },
+        createElement(Field, null),
+        createElement(MaybeSuspend, null)
+      );
+
+      preactRender(app(), container);
+      await flush(50);
+      shouldSuspend = true;
+      preactRender(app(), container);
+      await flush(50);
+      seen.length = 0;
+
+      shouldSuspend = false;
+      d.resolve();
+      await flush(50);
+
+      expect(seen).toEqual(['layout: focused true', 'effect: shown, ']);
+    });
+  });
+
+
   describe('already-resolved lazy', () => {
     it('renders immediately if the lazy module is already loaded', async () => {
       const Comp = (props: any) => createElement('div', { 'data-testid': 'instant' }, 'Instant');
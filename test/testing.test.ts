@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement } from 'preact';
+import { Suspense } from '../src/suspense';
+import { use } from '../src/resource';
+import { createDeferred, createDeferredLazy, flushSuspense, waitForSuspense } from '../src/testing';
+
+function Profile({ name }: { name: string }) {
+  return createElement('div', { 'data-testid': 'profile' }, name);
+}
+
+describe('testing helpers', () => {
+  it('createDeferredLazy() loads once resolved, and flushSuspense() waits for the render', async () => {
+    const { Component, resolve } = createDeferredLazy(Profile);
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: createElement('div', { 'data-testid': 'testing-fb' }, 'Loading...')
+      }, createElement(Component, { name: 'Jane' }))
+    );
+
+    await expect.element(screen.getByTestId('testing-fb')).toBeInTheDocument();
+
+    resolve();
+    await flushSuspense();
+    expect(screen.getByTestId('profile').query()).toHaveTextContent('Jane');
+  });
+
+  it('createDeferredLazy() starts a new load after a rejection', async () => {
+    const deferredLazy = createDeferredLazy(Profile);
+    const { Component, resolve, reject } = deferredLazy;
+
+    const screen = render(
+      createElement(Suspense, {
+        fallback: 'Loading...',
+        errorFallback: (error: any, retry: () => void) =>
+          createElement('button', { 'data-testid': 'testing-retry', onClick: retry }, error.message)
+      }, createElement(Component, { name: 'Jane' }))
+    );
+
+    reject(new Error('Offline'));
+    await flushSuspense();
+    expect(screen.getByTestId('testing-retry').query()).toHaveTextContent('Offline');
+
+    (screen.getByTestId('testing-retry').query() as HTMLElement).click();
+    resolve();
+    await flushSuspense();
+    expect(screen.getByTestId('profile').query()).toHaveTextContent('Jane');
+    expect(deferredLazy.loads).toBe(2);
+  });
+
+  it('flushSuspense() follows suspensions that start after others resolve', async () => {
+    const user = createDeferred<string>();
+    const posts = createDeferred<string>();
+
+    function Page() {
+      const name = use(user.promise);
+      const title = use(posts.promise);
+      return createElement('div', { 'data-testid': 'page' }, `${name}: ${title}`);
+    }
+
+    const screen = render(createElement(Suspense, { fallback: 'Loading...' }, createElement(Page, null)));
+
+    user.resolve('Jane');
+    setTimeout(() => posts.resolve('Hello'), 20);
+    await flushSuspense();
+    expect(screen.getByTestId('page').query()).toHaveTextContent('Jane: Hello');
+  });
+
+  it('rejects with what is still pending after the timeout', async () => {
+    const never = createDeferred();
+
+    function Stuck() {
+      use(never.promise);
+      return null;
+    }
+
+    render(createElement(Suspense, { fallback: 'Loading...' }, createElement(Stuck, null)));
+
+    await expect(flushSuspense({ timeout: 30 })).rejects.toThrow(
+      'flushSuspense(): 1 Suspense boundaries still pending after 30ms (waiting on Stuck)'
+    );
+  });
+
+  it('waitForSuspense() only waits on boundaries inside the container', async () => {
+    const never = createDeferred();
+    const user = createDeferred<string>();
+
+    function Stuck() {
+      use(never.promise);
+      return null;
+    }
+
+    function User() {
+      return createElement('div', { 'data-testid': 'testing-user' }, use(user.promise));
+    }
+
+    render(createElement(Suspense, { fallback: 'Loading...' }, createElement(Stuck, null)));
+    const screen = render(createElement(Suspense, { fallback: 'Loading...' }, createElement(User, null)));
+
+    user.resolve('Jane');
+    await waitForSuspense(screen.container);
+    expect(screen.container.querySelector('[data-testid="testing-user"]')).toHaveTextContent('Jane');
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import { render } from 'vitest-browser-preact';
+import { createElement, createRef } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+import { Suspense } from '../src/suspense';
+import { lazy } from '../src/lazy';
+import { startTransition, useTransition } from '../src/transition';
+import { deferred, flush } from './helpers';
+
+function createPages() {
+  const d = deferred();
+  let ready = false;
+  d.promise.then(() => {
+    ready = true;
+  });
+
+  function Page({ name }: { name: string }) {
+    if (name === 'next' && !ready) throw d.promise;
+    return createElement('div', { 'data-testid': 'page' }, `Page: ${name}`);
+  }
+
+  // An extra layer between the boundary and the suspending component.
+  function Layout({ name }: { name: string }) {
+    return createElement('main', null, createElement(Page, { name }));
+  }
+
+  return { d, Layout };
+}
+
+describe('transitions', () => {
+  it('shows the fallback for updates outside a transition', async () => {
+    const { d, Layout } = createPages();
+    let navigate!: (name: string) => void;
+
+    function App() {
+      const [name, setName] = useState('home');
+      navigate = setName;
+      return createElement(Suspense, {
+        fallback: createElement('div', { 'data-testid': 'tr-fb' }, 'Loading...')
+      }, createElement(Layout, { name }));
+    }
+
+    const screen = render(createElement(App, null));
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: home');
+
+    navigate('next');
+    await flush();
+
+    await expect.element(screen.getByTestId('tr-fb')).toBeVisible();
+    d.resolve();
+  });
+
+  it('startTransition keeps the current children until the new tree is ready', async () => {
+    const { d, Layout } = createPages();
+    let navigate!: (name: string) => void;
+
+    function App() {
+      const [name, setName] = useState('home');
+      navigate = setName;
+      return createElement(Suspense, {
+        fallback: createElement('div', { 'data-testid': 'tr-fb' }, 'Loading...')
+      }, createElement(Layout, { name }));
+    }
+
+    const screen = render(createElement(App, null));
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: home');
+
+    startTransition(() => navigate('next'));
+    await flush();
+
+    expect(screen.container.querySelector('[data-testid="tr-fb"]')).toBeNull();
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: home');
+
+    d.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: next');
+  });
+
+  it('keeps the previous page mounted when a transition swaps the component type', async () => {
+    const d = deferred();
+    let mounts = 0;
+    let increment!: () => void;
+
+    function Home() {
+      const [n, setN] = useState(0);
+      increment = () => setN((value) => value + 1);
+      useEffect(() => {
+        mounts++;
+      }, []);
+      return createElement('div', { 'data-testid': 'home' }, `Home ${n}`);
+    }
+
+    const Settings = lazy(() =>
+      d.promise.then(() => ({ default: () => createElement('div', null, 'Settings') }))
+    );
+
+    let navigate!: (page: string) => void;
+
+    function App() {
+      const [page, setPage] = useState('home');
+      navigate = setPage;
+      return createElement(Suspense, {
+        fallback: createElement('div', { 'data-testid': 'tr-fb' }, 'Loading...')
+      }, page === 'home' ? createElement(Home, null) : createElement(Settings, null));
+    }
+
+    const screen = render(createElement(App, null));
+    await expect.element(screen.getByTestId('home')).toBeVisible();
+    increment();
+    increment();
+    await flush();
+
+    startTransition(() => navigate('settings'));
+    await flush();
+
+    expect(screen.container.querySelector('[data-testid="tr-fb"]')).toBeNull();
+    expect(screen.container.textContent).toBe('Home 2');
+    expect(mounts).toBe(1);
+
+    d.resolve();
+    await flush();
+
+    expect(screen.container.textContent).toBe('Settings');
+  });
+
+  it('updates the children in place when a transition does not suspend', async () => {
+    let mounts = 0;
+    const ref = createRef<HTMLDivElement>();
+    let setLabel!: (label: string) => void;
+
+    function Counter({ label }: { label: string }) {
+      const [n] = useState(() => Math.random());
+      useEffect(() => {
+        mounts++;
+      }, []);
+      return createElement('div', { ref, 'data-n': String(n) }, label);
+    }
+
+    function App() {
+      const [label, set] = useState('a');
+      setLabel = set;
+      return createElement(Suspense, { fallback: 'Loading...' }, createElement(Counter, { label }));
+    }
+
+    const screen = render(createElement(App, null));
+    await flush();
+    const before = screen.container.querySelector('div')!;
+
+    startTransition(() => setLabel('b'));
+    await flush(50);
+
+    expect(screen.container.innerHTML).toBe(before.outerHTML.replace('>a<', '>b<'));
+    expect(screen.container.querySelector('div')).toBe(before);
+    expect(ref.current).toBe(before);
+    expect(mounts).toBe(1);
+  });
+
+  it('useTransition reports isPending until suspended children settle', async () => {
+    const { d, Layout } = createPages();
+    let navigate!: () => void;
+
+    function App() {
+      const [name, setName] = useState('home');
+      const [isPending, start] = useTransition();
+      navigate = () => start(() => setName('next'));
+      return createElement('div', { 'data-testid': 'app', 'data-pending': String(isPending) },
+        createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'tr-fb' }, 'Loading...')
+        }, createElement(Layout, { name }))
+      );
+    }
+
+    const screen = render(createElement(App, null));
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: home');
+
+    navigate();
+    await flush();
+
+    expect(screen.container.querySelector('[data-testid="app"]')!.getAttribute('data-pending')).toBe('true');
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: home');
+
+    d.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: next');
+    expect(screen.container.querySelector('[data-testid="app"]')!.getAttribute('data-pending')).toBe('false');
+  });
+
+  it('useTransition settles immediately when nothing suspends', async () => {
+    let increment!: () => void;
+
+    function Counter() {
+      const [count, setCount] = useState(0);
+      const [isPending, start] = useTransition();
+      increment = () => start(() => setCount((c) => c + 1));
+      return createElement('div', { 'data-testid': 'counter' }, `${count} ${isPending ? 'pending' : 'idle'}`);
+    }
+
+    const screen = render(createElement(Counter, null));
+
+    increment();
+    await flush();
+
+    await expect.element(screen.getByTestId('counter')).toHaveTextContent('1 idle');
+  });
+
+  it('shows the fallback when a boundary first mounts inside a transition', async () => {
+    const { d, Layout } = createPages();
+    let show!: () => void;
+
+    function App() {
+      const [visible, setVisible] = useState(false);
+      show = () => setVisible(true);
+      return visible
+        ? createElement(Suspense, {
+          fallback: createElement('div', { 'data-testid': 'tr-fb' }, 'Loading...')
+        }, createElement(Layout, { name: 'next' }))
+        : null;
+    }
+
+    const screen = render(createElement(App, null));
+
+    startTransition(() => show());
+    await flush();
+
+    await expect.element(screen.getByTestId('tr-fb')).toBeVisible();
+
+    d.resolve();
+    await flush();
+
+    await expect.element(screen.getByTestId('page')).toHaveTextContent('Page: next');
+  });
+});
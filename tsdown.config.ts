@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsdown'
 
 export default defineConfig({
-  entry: 'src/index.ts',
+  entry: ['src/index.ts', 'src/server.ts', 'src/debug.ts', 'src/signals.ts', 'src/testing.ts'],
   format: ['cjs', 'esm'],
   sourcemap: true,
   minify: true